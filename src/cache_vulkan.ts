@@ -0,0 +1,249 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cache from '@actions/cache'
+import * as core from '@actions/core'
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as installerVulkan from './installer_vulkan'
+import * as manifest from './manifest'
+import * as platform from './platform'
+
+/**
+ * The installation options, which change the content of the cached SDK folder.
+ *
+ * @export
+ * @interface CacheKeyOptions
+ */
+export interface CacheKeyOptions {
+  destination: string
+  optionalComponents: string[]
+  installRuntime: boolean
+  stripdown: boolean
+  stripdownProfile: string
+  stripdownInclude: string[]
+  stripdownExclude: string[]
+}
+
+/**
+ * The kind of cache hit: "exact" (primary key), "tool-cache" (runner's tool cache) or "none".
+ *
+ * @export
+ */
+export type CacheHit = 'exact' | 'tool-cache' | 'none'
+
+/**
+ * Get the kind of cache hit.
+ *
+ * @export
+ * @param {string} cachePrimaryKey - The primary cache key.
+ * @param {(string | undefined)} restoredKey - The key of the restored cache, if any.
+ * @return {*}  {CacheHit}
+ */
+export function getCacheHit(cachePrimaryKey: string, restoredKey: string | undefined): CacheHit {
+  return restoredKey === cachePrimaryKey ? 'exact' : 'none'
+}
+
+/**
+ * Get Cache Keys
+ *
+ * Format will be "cache-PLATFORM-ARCH-vulkan-sdk-VERSION-HASH", using the platform and architecture of the target.
+ * E.g. "cache-linux-x64-vulkan-sdk-1.3.250.1-0123456789ab".
+ *
+ * The hash is a stable hash of the installation options (destination, sorted optional components,
+ * runtime flag, stripdown profile and globs), so that a cache saved with different options is not restored.
+ *
+ * There are no restore keys: a prefix like "cache-linux-x64-vulkan-sdk-1.3.250.1-" would match a cache
+ * saved with different options, e.g. without the requested optional components or runtime.
+ *
+ * @export
+ * @param {string} version - The Vulkan SDK version.
+ * @param {CacheKeyOptions} options - The installation options.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
+ * @return { cachePrimaryKey: string; cacheRestoreKeys: string[]; }
+ */
+export function getCacheKeys(
+  version: string,
+  options: CacheKeyOptions,
+  target: platform.Target = platform.HOST_TARGET
+): { cachePrimaryKey: string; cacheRestoreKeys: string[] } {
+  // Note: getTargetPlatform() is used to get "windows", instead of OS_PLATFORM value "win32"
+  const prefix = `cache-${platform.getTargetPlatform(target)}-${target.arch}-vulkan-sdk-${version}-`
+  const cachePrimaryKey = `${prefix}${getCacheKeyHash(options)}`
+  return { cachePrimaryKey, cacheRestoreKeys: [] }
+}
+
+/**
+ * Get a stable hash of the installation options.
+ *
+ * @export
+ * @param {CacheKeyOptions} options - The installation options.
+ * @return {*}  {string} The first 12 hex characters of the SHA-256 hash.
+ */
+export function getCacheKeyHash(options: CacheKeyOptions): string {
+  const normalizedOptions = {
+    destination: path.normalize(options.destination),
+    optionalComponents: [...new Set(options.optionalComponents)].sort(),
+    installRuntime: options.installRuntime,
+    stripdown: options.stripdown,
+    stripdownProfile: options.stripdown ? options.stripdownProfile : '',
+    stripdownInclude: options.stripdown ? options.stripdownInclude : [],
+    stripdownExclude: options.stripdown ? options.stripdownExclude : []
+  }
+  return crypto.createHash('sha256').update(JSON.stringify(normalizedOptions)).digest('hex').slice(0, 12)
+}
+
+/**
+ * Get the path to cache.
+ *
+ * The versionized installation folder is cached, e.g. "C:\VulkanSDK\1.3.250.1" or "/home/runner/vulkan-sdk/1.3.250.1",
+ * so that the versions installed side-by-side into the same destination are cached separately.
+ *
+ * @export
+ * @param {string} version - The Vulkan SDK version.
+ * @param {string} destination - The installation destination.
+ * @return {*}  {string}
+ */
+export function getCachePath(version: string, destination: string): string {
+  return path.normalize(`${destination}/${version}`)
+}
+
+/**
+ * Restore the Vulkan SDK from cache and verify the restored tree.
+ *
+ * A restore only counts as a hit, when it was restored by the primary key, so it was built with the current
+ * installation options, and the restored tree contains the requested version and passes the installation verification. If the restored tree contains a manifest, every file is verified
+ * against it, which detects partially restored caches. Otherwise, the restored version folder is discarded.
+ *
+ * @export
+ * @param {string} version - The Vulkan SDK version.
+ * @param {string} destination - The installation destination.
+ * @param {string} cachePrimaryKey - The primary cache key.
+ * @param {string[]} cacheRestoreKeys - The restore keys.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
+ * @return {*}  {(Promise<string | undefined>)} The key of the restored cache or undefined, if there was no usable cache.
+ */
+export async function restoreVulkanSdk(
+  version: string,
+  destination: string,
+  cachePrimaryKey: string,
+  cacheRestoreKeys: string[],
+  target: platform.Target = platform.HOST_TARGET
+): Promise<string | undefined> {
+  const restoredKey = await cache.restoreCache([getCachePath(version, destination)], cachePrimaryKey, cacheRestoreKeys)
+  if (restoredKey === undefined) {
+    core.info(`🎯 [Cache] Cache for 'Vulkan SDK' not found.`)
+    return undefined
+  }
+
+  const versionizedDestinationPath = path.normalize(`${destination}/${version}`)
+  let reason = ''
+  if (restoredKey !== cachePrimaryKey) {
+    reason = `it was saved with other installation options than '${cachePrimaryKey}'`
+  } else if (!fs.existsSync(versionizedDestinationPath)) {
+    reason = `it doesn't contain the requested version ${version}`
+  } else if (
+    !installerVulkan.verifyInstallationOfSdk(installerVulkan.getVulkanSdkPath(destination, version, target), target)
+  ) {
+    reason = `the installation verification failed (vulkaninfo not found)`
+  } else {
+    // a partially restored cache is detected by the manifest of the installation
+    const verification = await manifest.verifyInstallation(versionizedDestinationPath)
+    if (verification && !manifest.isValid(verification)) {
+      reason = `the manifest verification failed: ${manifest.describeProblems(verification)}`
+    }
+  }
+  if (reason) {
+    core.info(`🎯 [Cache] Discarding restored cache '${restoredKey}', because ${reason}.`)
+    fs.rmSync(versionizedDestinationPath, { recursive: true, force: true })
+    return undefined
+  }
+
+  core.info(`🎯 [Cache] Restored Vulkan SDK in path: '${destination}'. Cache Key: '${restoredKey}'.`)
+  return restoredKey
+}
+
+/**
+ * The cache state of an installed version, which is passed to the post step.
+ *
+ * @export
+ * @interface CacheState
+ */
+export interface CacheState {
+  primaryKey: string
+  path: string
+  // empty, if no cache was restored
+  restoredKey: string
+}
+
+// the cache states of all installed versions
+const cacheStates: CacheState[] = []
+
+/**
+ * Save the cache state for the post step.
+ *
+ * The cache is not saved immediately after the installation, but in the post step at the end of the job.
+ * This captures files added to the SDK later in the job and keeps the save off the critical path.
+ * Each installed version has its own cache state.
+ *
+ * @export
+ * @param {string} cachePrimaryKey - The primary cache key.
+ * @param {string} cachePath - The path to cache.
+ * @param {(string | undefined)} restoredKey - The key of the restored cache, if any.
+ */
+export function saveCacheState(cachePrimaryKey: string, cachePath: string, restoredKey: string | undefined): void {
+  cacheStates.push({ primaryKey: cachePrimaryKey, path: cachePath, restoredKey: restoredKey ?? '' })
+  core.saveState('cache-states', JSON.stringify(cacheStates))
+}
+
+/**
+ * Save the installed versions of the Vulkan SDK to cache (post step).
+ *
+ * The save of a version is skipped, if its cache was restored with an exact primary key hit (like actions/cache does).
+ * Nothing is saved, if the main step didn't request caching.
+ * A failed save of one version is reported as warning and doesn't prevent the save of the other versions.
+ *
+ * @export
+ * @return {*}  {Promise<void>}
+ */
+export async function saveVulkanSdk(): Promise<void> {
+  const states = core.getState('cache-states')
+  if (!states) {
+    core.debug('Caching is not enabled. Skipping cache save.')
+    return
+  }
+  for (const state of JSON.parse(states) as CacheState[]) {
+    try {
+      await saveCacheEntry(state.primaryKey, state.path, state.restoredKey)
+    } catch (error) {
+      core.warning(`Saving the cache '${state.primaryKey}' failed: ${(error as Error).message}`)
+    }
+  }
+}
+
+/**
+ * Save one installed version of the Vulkan SDK to cache.
+ *
+ * @param {string} cachePrimaryKey - The primary cache key.
+ * @param {string} cachePath - The path to cache.
+ * @param {string} restoredKey - The key of the restored cache or an empty string.
+ * @return {*}  {Promise<void>}
+ */
+async function saveCacheEntry(cachePrimaryKey: string, cachePath: string, restoredKey: string): Promise<void> {
+  if (getCacheHit(cachePrimaryKey, restoredKey) === 'exact') {
+    core.info(`🎯 [Cache] Cache hit occurred on the primary key '${cachePrimaryKey}', not saving cache.`)
+    return
+  }
+  if (!fs.existsSync(cachePath)) {
+    core.warning(`Path to cache doesn't exist: '${cachePath}'. Skipping cache save.`)
+    return
+  }
+
+  const cacheId = await cache.saveCache([cachePath], cachePrimaryKey)
+  if (cacheId !== -1) {
+    core.info(`🎯 [Cache] Saved Vulkan SDK in path: '${cachePath}'. Cache Save ID: '${cacheId}'.`)
+  }
+}
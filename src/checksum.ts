@@ -0,0 +1,203 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as crypto from 'node:crypto'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as http from './http'
+
+/**
+ * An expected checksum and where it came from.
+ *
+ * @export
+ * @interface ExpectedChecksum
+ */
+export interface ExpectedChecksum {
+  sha256: string
+  source: string
+}
+
+/**
+ * Normalize a SHA-256 checksum: trim, lowercase and remove an optional "sha256:" prefix.
+ *
+ * @export
+ * @param {string} checksum - The checksum.
+ * @return {*}  {string} The normalized checksum.
+ */
+export function normalizeSha256(checksum: string): string {
+  return checksum
+    .trim()
+    .replace(/^sha256:/i, '')
+    .toLowerCase()
+}
+
+/**
+ * Check, if a string is a SHA-256 checksum (64 hex characters, with optional "sha256:" prefix).
+ *
+ * @export
+ * @param {string} checksum - The checksum.
+ * @return {*}  {boolean}
+ */
+export function isSha256(checksum: string): boolean {
+  return /^[a-f0-9]{64}$/.test(normalizeSha256(checksum))
+}
+
+/**
+ * Compute the SHA-256 checksum of a file.
+ *
+ * @export
+ * @param {string} file - The file.
+ * @return {*}  {Promise<string>} The hex encoded checksum.
+ */
+export async function computeSha256(file: string): Promise<string> {
+  const hash = crypto.createHash('sha256')
+  for await (const chunk of fs.createReadStream(file)) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Parse a checksum file in the "sha256sum" format.
+ *
+ * Each line is "<checksum>  <filename>" or "<checksum> *<filename>".
+ * A sidecar file (e.g. "vulkansdk.tar.xz.sha256") might contain only the checksum.
+ *
+ * @export
+ * @param {string} content - The content of the checksum file.
+ * @param {string} filename - The filename to look up.
+ * @return {*}  {(string | undefined)} The checksum or undefined, if the file has no entry for the filename.
+ */
+export function parseChecksumFile(content: string, filename: string): string | undefined {
+  const entries = content
+    .split(/\r?\n/)
+    .map(line => line.trim().match(/^(?:sha256:)?([a-fA-F0-9]{64})(?:\s+\*?(.+))?$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+
+  const entry = entries.find(match => match[2] !== undefined && path.basename(match[2].trim()) === filename)
+  if (entry) {
+    return entry[1].toLowerCase()
+  }
+  // a single checksum without filename
+  if (entries.length === 1 && entries[0][2] === undefined) {
+    return entries[0][1].toLowerCase()
+  }
+  return undefined
+}
+
+/**
+ * Read a checksum manifest from a local file or an URL.
+ *
+ * @export
+ * @param {string} location - The path or URL of the checksum manifest.
+ * @param {number} timeout - The timeout of the request in milliseconds.
+ * @return {*}  {Promise<string>} The content of the checksum manifest.
+ */
+export async function readChecksumManifest(location: string, timeout: number): Promise<string> {
+  if (/^https?:\/\//i.test(location)) {
+    const response = await http.createClient(timeout).get(location)
+    if (response.message.statusCode !== 200) {
+      throw new Error(
+        `Unable to retrieve the checksum manifest from '${location}' (HTTP ${response.message.statusCode}).`
+      )
+    }
+    return await response.readBody()
+  }
+  if (!fs.existsSync(location)) {
+    throw new Error(`The checksum manifest '${location}' does not exist.`)
+  }
+  return fs.readFileSync(location, 'utf8')
+}
+
+/**
+ * Fetch the sidecar checksum file "<url>.sha256" from the mirror, if one exists.
+ *
+ * A mirror, which doesn't answer within the timeout, is not trusted: the error is thrown,
+ * so that the next mirror is tried.
+ *
+ * @export
+ * @param {string} url - The download URL.
+ * @param {string} filename - The filename of the download.
+ * @param {number} timeout - The timeout of the request in milliseconds.
+ * @return {*}  {(Promise<string | undefined>)} The checksum or undefined, if there is no sidecar file.
+ */
+export async function fetchSidecarChecksum(
+  url: string,
+  filename: string,
+  timeout: number
+): Promise<string | undefined> {
+  const sidecarUrl = `${url}.sha256`
+  try {
+    const response = await http.createClient(timeout).get(sidecarUrl)
+    const content = await response.readBody()
+    if (response.message.statusCode === 200) {
+      return parseChecksumFile(content, filename)
+    }
+  } catch (error) {
+    throw new Error(`Unable to fetch the sidecar checksum '${sidecarUrl}': ${(error as Error).message}`)
+  }
+  core.debug(`No sidecar checksum '${sidecarUrl}'.`)
+  return undefined
+}
+
+/**
+ * Determine the expected checksum of a download.
+ *
+ * The sources are checked in order:
+ *    a) the checksum passed in as input
+ *    b) the entry for the filename in the checksum manifest
+ *    c) the sidecar file "<url>.sha256" on the mirror
+ *
+ * @export
+ * @param {string} url - The download URL.
+ * @param {string} filename - The filename of the download, used for the lookup in the checksum manifest.
+ * @param {string} checksum - The checksum passed in as input, might be empty.
+ * @param {string} manifest - The path or URL of the checksum manifest, might be empty.
+ * @param {number} timeout - The timeout of a request in milliseconds.
+ * @return {*}  {(Promise<ExpectedChecksum | undefined>)} The expected checksum or undefined, if none is available.
+ */
+export async function getExpectedChecksum(
+  url: string,
+  filename: string,
+  checksum: string,
+  manifest: string,
+  timeout: number
+): Promise<ExpectedChecksum | undefined> {
+  if (checksum) {
+    return { sha256: normalizeSha256(checksum), source: 'input' }
+  }
+  if (manifest) {
+    const sha256 = parseChecksumFile(await readChecksumManifest(manifest, timeout), filename)
+    if (sha256 === undefined) {
+      throw new Error(`The checksum manifest '${manifest}' has no entry for '${filename}'.`)
+    }
+    return { sha256, source: `manifest ${manifest}` }
+  }
+  const sha256 = await fetchSidecarChecksum(url, filename, timeout)
+  if (sha256 !== undefined) {
+    return { sha256, source: `${url}.sha256` }
+  }
+  return undefined
+}
+
+/**
+ * Verify the SHA-256 checksum of a file.
+ *
+ * @export
+ * @param {string} file - The file to verify.
+ * @param {ExpectedChecksum} expected - The expected checksum.
+ * @return {*}  {Promise<void>}
+ * @throws {Error} If the checksums don't match.
+ */
+export async function verifySha256(file: string, expected: ExpectedChecksum): Promise<void> {
+  const actual = await computeSha256(file)
+  if (actual !== expected.sha256) {
+    throw new Error(
+      `❌ SHA-256 mismatch for '${file}'. Expected: ${expected.sha256} (${expected.source}). Actual: ${actual}.`
+    )
+  }
+  core.info(`✔️ SHA-256 verified: ${actual} (${expected.source})`)
+}
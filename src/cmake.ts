@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+
+/**
+ * The hints for CMake's FindVulkan module.
+ *
+ * Each variable maps to candidate paths relative to VULKAN_SDK, the first existing path is used.
+ * Variables without an existing path are not written, e.g. for a stripped down SDK.
+ *
+ * @see https://cmake.org/cmake/help/latest/module/FindVulkan.html
+ */
+const FIND_VULKAN_HINTS: [string, string[]][] = [
+  ['Vulkan_INCLUDE_DIR', ['include', 'Include']],
+  ['Vulkan_LIBRARY', ['lib/libvulkan.so', 'lib/libvulkan.dylib', 'Lib/vulkan-1.lib', 'lib/vulkan-1.lib']],
+  ['Vulkan_GLSLC_EXECUTABLE', ['bin/glslc', 'Bin/glslc.exe', 'bin/glslc.exe']],
+  [
+    'Vulkan_GLSLANG_VALIDATOR_EXECUTABLE',
+    ['bin/glslangValidator', 'Bin/glslangValidator.exe', 'bin/glslangValidator.exe']
+  ],
+  ['Vulkan_dxc_EXECUTABLE', ['bin/dxc', 'Bin/dxc.exe', 'bin/dxc.exe']],
+  ['Vulkan_dxc_LIBRARY', ['lib/libdxcompiler.so', 'lib/libdxcompiler.dylib', 'Lib/dxcompiler.lib']],
+  ['Vulkan_shaderc_combined_LIBRARY', ['lib/libshaderc_combined.a', 'Lib/shaderc_combined.lib']],
+  ['Vulkan_SPIRV-Tools_LIBRARY', ['lib/libSPIRV-Tools.a', 'Lib/SPIRV-Tools.lib']],
+  ['Vulkan_volk_LIBRARY', ['lib/libvolk.a', 'Lib/volk.lib']],
+  ['Vulkan_MoltenVK_LIBRARY', ['lib/libMoltenVK.dylib']]
+]
+
+/**
+ * Convert a path to the CMake notation (forward slashes).
+ *
+ * @param {string} value - The path.
+ * @return {*}  {string}
+ */
+function toCmakePath(value: string): string {
+  return value.replace(/\\/g, '/')
+}
+
+/**
+ * Get the content of the CMake file for the SDK.
+ *
+ * The file sets Vulkan_ROOT, prepends the SDK to CMAKE_PREFIX_PATH and sets the hints of FindVulkan,
+ * e.g. Vulkan_GLSLC_EXECUTABLE and Vulkan_GLSLANG_VALIDATOR_EXECUTABLE.
+ *
+ * @export
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK), e.g. "/home/runner/vulkan-sdk/1.3.250.1/x86_64".
+ * @param {string} version - The version of the Vulkan SDK.
+ * @return {*}  {string}
+ */
+export function getCmakeContent(sdkPath: string, version: string): string {
+  const root = toCmakePath(sdkPath)
+  const lines = [
+    `# Vulkan SDK ${version}, generated by install-vulkan-sdk-action.`,
+    '# Usage: cmake -DCMAKE_PROJECT_INCLUDE=<this file> ...',
+    '',
+    `set(Vulkan_ROOT "${root}" CACHE PATH "Vulkan SDK root folder")`,
+    `set(ENV{VULKAN_SDK} "${root}")`,
+    `list(PREPEND CMAKE_PREFIX_PATH "${root}")`,
+    ''
+  ]
+  for (const [variable, candidates] of FIND_VULKAN_HINTS) {
+    const found = candidates.find(candidate => fs.existsSync(path.join(sdkPath, candidate)))
+    if (found) {
+      const type = variable.endsWith('_DIR') ? 'PATH' : 'FILEPATH'
+      lines.push(`set(${variable} "${root}/${found}" CACHE ${type} "")`)
+    }
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Write the CMake file "vulkan-sdk.cmake" for the SDK.
+ *
+ * @export
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK).
+ * @param {string} version - The version of the Vulkan SDK.
+ * @param {string} folder - The folder to write the file to, e.g. a folder in RUNNER_TEMP.
+ * @return {*}  {string} The path of the CMake file.
+ */
+export function writeCmakeFile(sdkPath: string, version: string, folder: string): string {
+  const file = path.join(folder, 'vulkan-sdk.cmake')
+  fs.mkdirSync(folder, { recursive: true })
+  fs.writeFileSync(file, getCmakeContent(sdkPath, version))
+  core.info(`✔️ [CMake] Wrote CMake file: ${file}`)
+  return file
+}
+
+/**
+ * Get the value of CMAKE_PREFIX_PATH with the SDK prepended.
+ *
+ * @export
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK).
+ * @param {string} [current=process.env.CMAKE_PREFIX_PATH || ''] - The current value.
+ * @return {*}  {string}
+ */
+export function getCmakePrefixPath(sdkPath: string, current: string = process.env.CMAKE_PREFIX_PATH || ''): string {
+  const paths = current.split(path.delimiter).filter(item => item && item !== sdkPath)
+  return [sdkPath, ...paths].join(path.delimiter)
+}
@@ -0,0 +1,213 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as platform from './platform'
+import * as stripdown from './stripdown'
+import * as versions from './versions'
+
+/**
+ * An optional component of the Vulkan SDK.
+ *
+ * https://vulkan.lunarg.com/doc/view/latest/windows/getting_started.html#user-content-installing-optional-components
+ * list components on windows: "maintenancetool.exe list" or "installer.exe search"
+ *
+ * @export
+ * @interface Component
+ */
+export interface Component {
+  // the platforms providing the component, values of platform.getTargetPlatform()
+  platforms: string[]
+  // the version range of SDKs providing the component
+  versions: string
+  // Linux only: the globs of the SDK subtree of the component, relative to the versionized SDK folder
+  linuxSubtree?: string[]
+}
+
+/**
+ * The registry of optional components.
+ *
+ * The Linux tarball has no installer and always contains everything.
+ * The SDK subtrees of the components are removed, if the component was not requested.
+ * This way, the installation (and cache content) means the same thing on every platform.
+ */
+export const COMPONENTS: Record<string, Component> = {
+  'com.lunarg.vulkan.glm': {
+    platforms: ['windows', 'warm', 'linux', 'mac'],
+    versions: '*',
+    linuxSubtree: ['**/include/glm/**', '**/lib/cmake/glm/**']
+  },
+  'com.lunarg.vulkan.sdl2': {
+    platforms: ['windows', 'linux', 'mac'],
+    versions: '*',
+    linuxSubtree: [
+      '**/include/SDL2/**',
+      '**/lib/libSDL2*',
+      '**/lib/cmake/SDL2/**',
+      '**/lib/pkgconfig/sdl2.pc',
+      '**/bin/sdl2-config'
+    ]
+  },
+  'com.lunarg.vulkan.volk': {
+    platforms: ['windows', 'warm', 'linux', 'mac'],
+    versions: '>=1.2.162.0',
+    linuxSubtree: ['**/include/volk*', '**/lib/libvolk*', '**/lib/cmake/volk/**']
+  },
+  'com.lunarg.vulkan.vma': {
+    platforms: ['windows', 'warm', 'linux', 'mac'],
+    versions: '>=1.3.204.0',
+    linuxSubtree: ['**/include/vma/**', '**/include/vk_mem_alloc*', '**/share/cmake/VulkanMemoryAllocator/**']
+  },
+  'com.lunarg.vulkan.32bit': {
+    platforms: ['windows', 'linux'],
+    versions: '*',
+    linuxSubtree: ['**/lib32/**']
+  },
+  'com.lunarg.vulkan.debug32': {
+    platforms: ['windows'],
+    versions: '*'
+  },
+  'com.lunarg.vulkan.ios': {
+    platforms: ['mac'],
+    versions: '*'
+  },
+  // components of old installers
+  'com.lunarg.vulkan.thirdparty': {
+    platforms: ['windows'],
+    versions: '<1.2.170.0'
+  },
+  'com.lunarg.vulkan.debug': {
+    platforms: ['windows'],
+    versions: '<1.2.170.0'
+  }
+}
+
+/**
+ * Resolve the requested optional components for an SDK version and platform.
+ *
+ * Unknown components and components, which are not available for the version or platform,
+ * are dropped with a warning. In strict mode, the action fails instead.
+ *
+ * @export
+ * @param {string[]} requested - The requested optional components.
+ * @param {string} version - The Vulkan SDK version.
+ * @param {boolean} [strict=false] - Fail on unknown or unavailable components.
+ * @param {string} [platformName=platform.getPlatform()] - The platform, e.g. "windows" or "linux".
+ * @return {*}  {string[]} The optional components to install.
+ */
+export function resolveOptionalComponents(
+  requested: string[],
+  version: string,
+  strict = false,
+  platformName: string = platform.getPlatform()
+): string[] {
+  const problems: string[] = []
+  const resolved: string[] = []
+
+  for (const name of requested) {
+    const component = COMPONENTS[name]
+    if (component === undefined) {
+      const suggestion = suggestComponent(name)
+      problems.push(`Unknown optional component '${name}'.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`)
+    } else if (!component.platforms.includes(platformName)) {
+      problems.push(`Optional component '${name}' is not available on ${platformName}.`)
+    } else if (!versions.satisfies(version, component.versions)) {
+      problems.push(
+        `Optional component '${name}' is not available for Vulkan SDK ${version} (requires ${component.versions}).`
+      )
+    } else if (!resolved.includes(name)) {
+      resolved.push(name)
+    }
+  }
+
+  if (problems.length) {
+    if (strict) {
+      throw new Error(`Invalid "optional_components":\n${problems.join('\n')}`)
+    }
+    for (const problem of problems) {
+      core.warning(`${problem} The component is skipped.`)
+    }
+  }
+
+  if (resolved.length) {
+    core.info(`✔️ Installing Optional Components: ${resolved.join(', ')}`)
+  }
+
+  return resolved
+}
+
+/**
+ * Suggest the name of a known component for a misspelled or abbreviated name.
+ *
+ * @export
+ * @param {string} name - The misspelled component name, e.g. "com.lunarg.vulkan.volc" or "volk".
+ * @return {*}  {(string | undefined)} The suggested component name or undefined, if nothing is similar.
+ */
+export function suggestComponent(name: string): string | undefined {
+  const lowerName = name.toLowerCase()
+  const names = Object.keys(COMPONENTS)
+  const bySuffix = names.find(component => component.endsWith(`.${lowerName}`) || component === lowerName)
+  if (bySuffix) {
+    return bySuffix
+  }
+  let best: string | undefined
+  let bestDistance = Math.max(2, Math.floor(name.length / 4)) + 1
+  for (const component of names) {
+    const distance = levenshtein(lowerName, component)
+    if (distance < bestDistance) {
+      best = component
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/**
+ * The Levenshtein edit distance of two strings.
+ *
+ * @param {string} a
+ * @param {string} b
+ * @return {*}  {number}
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Remove the subtrees of the components, which were not requested, from the Linux SDK.
+ *
+ * @export
+ * @param {string} sdkPath - The versionized SDK folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @param {string[]} optionalComponents - The requested optional components.
+ * @return {*}  {stripdown.RemovalResult}
+ */
+export function pruneLinuxComponents(sdkPath: string, optionalComponents: string[]): stripdown.RemovalResult {
+  const linuxComponents = Object.keys(COMPONENTS).filter(name => COMPONENTS[name].linuxSubtree !== undefined)
+  const installed = linuxComponents.filter(name => optionalComponents.includes(name))
+  const removed = linuxComponents.filter(name => !optionalComponents.includes(name))
+
+  if (removed.length === 0) {
+    return { files: 0, bytes: 0 }
+  }
+  const keepGlobs = installed.flatMap(name => COMPONENTS[name].linuxSubtree ?? [])
+  const removeGlobs = removed.flatMap(name => COMPONENTS[name].linuxSubtree ?? [])
+  const result = stripdown.removeFiles(
+    sdkPath,
+    relativePath => !stripdown.matchesAny(relativePath, keepGlobs) && stripdown.matchesAny(relativePath, removeGlobs)
+  )
+  core.info(
+    `✂ Removed components not requested: ${removed.join(', ')} (${result.files} files, ${stripdown.formatBytes(result.bytes)}).`
+  )
+  return result
+}
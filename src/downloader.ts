@@ -4,75 +4,327 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as core from '@actions/core'
-import * as tc from '@actions/tool-cache' // https://github.com/actions/toolkit/tree/main/packages/tool-cache
+import * as fs from 'node:fs'
 import * as path from 'node:path'
+import * as checksum from './checksum'
 import * as http from './http'
 import * as platform from './platform'
 import * as versions from './versions'
 
 /**
- * Get download url for Vulkan SDK.
+ * Download options.
  *
  * @export
- * @param {string} version - The SDK version to download.
- * @return {*}  {Promise<string>} Returns the download url.
+ * @interface DownloadOptions
+ */
+export interface DownloadOptions {
+  // Templated base URLs of download mirrors, tried in order. Empty means: use the default mirrors.
+  mirrors: string[]
+  // Expected SHA-256 checksum of the SDK installer or archive. Might be empty.
+  sdkChecksum: string
+  // Expected SHA-256 checksum of the runtime components archive. Might be empty.
+  runtimeChecksum: string
+  // Path or URL of a checksum manifest in "sha256sum" format. Might be empty.
+  checksumManifest: string
+  // Number of retries of a failed request or download, with exponential backoff.
+  retries: number
+  // Timeout of a single download attempt in seconds.
+  timeout: number
+  // Linux ARM only: the distribution variant of the SDK, e.g. "ubuntu-22.04". Empty means: detect.
+  linuxDistribution: string
+  // The platform and architecture of the SDK, which might differ from the host.
+  target: platform.Target
+}
+
+/**
+ * Default mirrors for the Vulkan SDK, tried in order.
+ *
+ * A mirror is a templated base URL with the placeholders {version}, {platform} and {filename}.
+ * If a template has no {filename} placeholder, the filename is appended to the base URL.
+ */
+export const DEFAULT_SDK_MIRRORS: string[] = [
+  'https://storage.googleapis.com/rerun-test-assets/vulkan/{version}/{platform}/{filename}',
+  'https://sdk.lunarg.com/sdk/download/{version}/{platform}/{filename}'
+]
+
+/**
+ * Default mirror for the unofficial Vulkan SDK for Linux ARM64.
+ *
+ * @see https://github.com/jakoch/vulkan-sdk-arm/releases
+ */
+export const DEFAULT_SDK_MIRRORS_LINUX_ARM: string[] = [
+  'https://github.com/jakoch/vulkan-sdk-arm/releases/download/{version}/{filename}'
+]
+
+/**
+ * Default mirror for the Vulkan Runtime.
+ * The runtime components are only available with a normalized filename on rerun's bucket.
  */
-export async function getUrlVulkanSdk(version: string): Promise<string> {
-  const platformName = platform.getPlatform() // For download urls see https://vulkan.lunarg.com/sdk/home
+export const DEFAULT_RUNTIME_MIRRORS: string[] = [
+  'https://storage.googleapis.com/rerun-test-assets/vulkan/{version}/{platform}/{filename}'
+]
+
+/**
+ * Expand a mirror template to a download URL.
+ *
+ * @export
+ * @param {string} template - The templated base URL, e.g. "https://mirror.local/vulkan/{version}/{platform}".
+ * @param {string} version - The version to download.
+ * @param {string} filename - The filename to download.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target of the download.
+ * @return {*}  {string} The download URL.
+ */
+export function expandMirrorTemplate(
+  template: string,
+  version: string,
+  filename: string,
+  target: platform.Target = platform.HOST_TARGET
+): string {
+  let url = template.trim()
+  if (!url.includes('{filename}')) {
+    url = `${url.replace(/\/+$/, '')}/{filename}`
+  }
+  return url
+    .replace(/\{version\}/g, version)
+    .replace(/\{platform\}/g, platform.getTargetPlatform(target))
+    .replace(/\{filename\}/g, filename)
+}
+
+/**
+ * Download a file from the first mirror, which serves it and passes the checksum verification.
+ *
+ * A mirror is skipped, if the file is not downloadable (HEAD request), the download fails after all retries
+ * or the checksum doesn't match. Then, the next mirror is tried.
+ *
+ * @param {string} name - The nice name.
+ * @param {string} version - The version of the download.
+ * @param {string[]} urls - The candidate URLs, in order of preference.
+ * @param {string} destination - The file to download to.
+ * @param {string} filename - The filename of the download, used for the lookup in the checksum manifest.
+ * @param {string} expectedChecksum - The checksum passed in as input, might be empty.
+ * @param {DownloadOptions} options - The download options.
+ * @return {*}  {Promise<DownloadedFile>} Download location and URL.
+ */
+async function downloadFromMirrors(
+  name: string,
+  version: string,
+  urls: string[],
+  destination: string,
+  filename: string,
+  expectedChecksum: string,
+  options: DownloadOptions
+): Promise<DownloadedFile> {
+  const failures: string[] = []
+  for (const url of urls) {
+    if (!(await http.isDownloadable(name, version, url, options.retries))) {
+      failures.push(`${url} (not downloadable)`)
+      continue
+    }
+    core.info(`🪞 Using mirror: ${url}`)
+    try {
+      const file = await http.downloadFile(url, destination, {
+        retries: options.retries,
+        timeout: options.timeout * 1000
+      })
+      core.info(`✔️ Download completed successfully!`)
+      core.info(`   File: ${file}`)
+      await verifyDownload(file, url, filename, expectedChecksum, options)
+      return { file, url }
+    } catch (error) {
+      const message = (error as Error).message
+      core.warning(`The download of ${name} ${version} from ${url} failed: ${message}. Trying the next mirror.`)
+      failures.push(`${url} (${message})`)
+    }
+  }
+  throw new Error(
+    `❌ The requested ${name} ${version} is not downloadable from any mirror. Tried: ${failures.join(', ')}`
+  )
+}
+
+/**
+ * The distribution variants of the unofficial Vulkan SDK for Linux ARM64.
+ * Each variant runs on the distribution it was built on and on distributions with a newer glibc.
+ */
+export const LINUX_ARM_DISTRIBUTIONS: string[] = ['ubuntu-22.04', 'ubuntu-24.04']
+
+/**
+ * The Ubuntu codenames, used to find the Ubuntu base of derivatives (UBUNTU_CODENAME), e.g. Linux Mint or Pop!_OS.
+ */
+const UBUNTU_CODENAMES: Record<string, string> = {
+  focal: '20.04',
+  jammy: '22.04',
+  kinetic: '22.10',
+  lunar: '23.04',
+  mantic: '23.10',
+  noble: '24.04',
+  oracular: '24.10',
+  plucky: '25.04'
+}
+
+/**
+ * The Debian codenames, used to find the Debian release of derivatives (VERSION_CODENAME), e.g. Raspberry Pi OS.
+ */
+const DEBIAN_CODENAMES: Record<string, number> = {
+  bullseye: 11,
+  bookworm: 12,
+  trixie: 13
+}
+
+/**
+ * Select the distribution variant of the Vulkan SDK for Linux ARM64.
+ *
+ * Ubuntu and its derivatives (ID_LIKE=ubuntu) are mapped by their Ubuntu version to the newest variant,
+ * which isn't newer than the Ubuntu version. Debian and its derivatives (ID_LIKE=debian) are mapped by the
+ * glibc of the release: Debian 12 to "ubuntu-22.04", Debian 13 and newer to "ubuntu-24.04".
+ * Approximate mappings are reported as warnings. Other distributions are not supported.
+ *
+ * @export
+ * @param {(platform.OsRelease | undefined)} osRelease - The identification of the Linux distribution.
+ * @return {*}  {string} The distribution variant, e.g. "ubuntu-22.04".
+ * @throws {Error} If the distribution is not supported.
+ */
+export function getLinuxArmDistribution(osRelease: platform.OsRelease | undefined): string {
+  const override = `Please set "linux_distribution" to one of: ${LINUX_ARM_DISTRIBUTIONS.join(', ')}.`
+  if (osRelease === undefined) {
+    throw new Error(`The Linux distribution is unknown, because "/etc/os-release" doesn't exist. ${override}`)
+  }
+  const name = osRelease.prettyName
+
+  if (osRelease.id === 'ubuntu' || osRelease.idLike.includes('ubuntu')) {
+    const ubuntuVersion =
+      osRelease.id === 'ubuntu' ? osRelease.versionId : (UBUNTU_CODENAMES[osRelease.ubuntuCodename] ?? '')
+    if (ubuntuVersion === '') {
+      throw new Error(`The Ubuntu base of ${name} is unknown. ${override}`)
+    }
+    const distribution = [...LINUX_ARM_DISTRIBUTIONS]
+      .reverse()
+      .find(variant => Number.parseFloat(variant.split('-')[1]) <= Number.parseFloat(ubuntuVersion))
+    if (distribution === undefined) {
+      throw new Error(`${name} (Ubuntu ${ubuntuVersion}) is too old for the Vulkan SDK for Linux ARM. ${override}`)
+    }
+    if (distribution !== `ubuntu-${ubuntuVersion}`) {
+      core.warning(`There is no Vulkan SDK for Linux ARM built for Ubuntu ${ubuntuVersion}, using ${distribution}.`)
+    }
+    core.info(`🐧 Linux ARM: ${name}, using the SDK for ${distribution}.`)
+    return distribution
+  }
 
-  // Windows:
-  // Latest Version: https://storage.googleapis.com/rerun-test-assets/vulkan/latest/windows/vulkan-sdk.exe
-  // Versionized:    https://storage.googleapis.com/rerun-test-assets/vulkan/1.3.216.0/windows/VulkanSDK-1.3.216.0-Installer.exe
-  //
-  // Warm (Windows ARM64):
-  // Latest Version: https://storage.googleapis.com/rerun-test-assets/vulkan/latest/warm/vulkan_sdk.exe
-  // Versionized:    https://storage.googleapis.com/rerun-test-assets/vulkan/1.4.304.0/warm/InstallVulkanARM64-1.4.304.0.exe
+  if (osRelease.id === 'debian' || osRelease.idLike.includes('debian')) {
+    // testing and unstable have no VERSION_ID
+    const debianVersion =
+      DEBIAN_CODENAMES[osRelease.versionCodename] ??
+      (osRelease.id === 'debian' ? Number.parseInt(osRelease.versionId || '99') : Number.NaN)
+    if (Number.isNaN(debianVersion) || debianVersion < 12) {
+      throw new Error(`${name} is not supported by the Vulkan SDK for Linux ARM. ${override}`)
+    }
+    const distribution = debianVersion === 12 ? 'ubuntu-22.04' : 'ubuntu-24.04'
+    core.warning(`There is no Vulkan SDK for Linux ARM built for ${name}, using the compatible ${distribution}.`)
+    return distribution
+  }
 
-  const downloadBaseUrl = `https://storage.googleapis.com/rerun-test-assets/vulkan/${version}/${platformName}`
+  throw new Error(
+    `${name} is not supported by the Vulkan SDK for Linux ARM, which is built for Ubuntu and compatible with Debian. ${override}`
+  )
+}
 
-  let vulkanSdkUrl = ''
+/**
+ * Returns the filename of the Vulkan SDK archive or installer, as published by LunarG.
+ *
+ * Windows:   VulkanSDK-1.3.216.0-Installer.exe
+ * Warm:      InstallVulkanARM64-1.4.304.0.exe
+ * Linux:     vulkansdk-linux-x86_64-1.3.250.1.tar.gz
+ * Linux ARM: vulkansdk-ubuntu-22.04-arm-1.4.304.0.tar.xz
+ * MacOS:     vulkansdk-macos-1.3.290.0.dmg
+ *
+ * @export
+ * @param {string} version - The SDK version to download.
+ * @param {string} [linuxDistribution=''] - Linux ARM only: the distribution variant, e.g. "ubuntu-22.04".
+ *   Empty means: detect, see getLinuxArmDistribution().
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target of the download.
+ * @return {*}  {string} The versionized filename.
+ */
+export function getVulkanSdkDownloadFilename(
+  version: string,
+  linuxDistribution = '',
+  target: platform.Target = platform.HOST_TARGET
+): string {
+  const sdkVersion = versions.SdkVersion.parse(version)
 
-  // note: condition order matters, e.g. IS_WINDOWS_ARM before IS_WINDOWS
+  // note: condition order matters, e.g. Windows ARM before Windows
 
-  if (platform.IS_WINDOWS_ARM) {
+  if (target.os === 'windows' && target.arch === 'arm64') {
     // well, installer naming scheme is off, compared to the other platforms
     // at least a minus is missing here... InstallVulkan-ARM64
-    vulkanSdkUrl = `${downloadBaseUrl}/InstallVulkanARM64-${version}.exe`
-  } else if (platform.IS_WINDOWS) {
-    vulkanSdkUrl = `${downloadBaseUrl}/VulkanSDK-${version}-Installer.exe`
-  } else if (platform.IS_LINUX_ARM) {
-    let distributionVersion = '24.04' // default to 24.04
-    if (platform.getLinuxDistributionVersionId() === '22.04') {
-      distributionVersion = '22.04'
-    }
-    // https://github.com/jakoch/vulkan-sdk-arm/releases/download/1.4.304.0/vulkansdk-ubuntu-22.04-arm-1.4.304.0.tar.xz
-    const downloadBaseUrl = `https://github.com/jakoch/vulkan-sdk-arm/releases/download/${version}`
-    vulkanSdkUrl = `${downloadBaseUrl}/vulkansdk-ubuntu-${distributionVersion}-arm-${version}.tar.xz`
-  } else if (platform.IS_LINUX) {
+    return `InstallVulkanARM64-${version}.exe`
+  }
+  if (target.os === 'windows') {
+    return `VulkanSDK-${version}-Installer.exe`
+  }
+  if (target.os === 'linux' && target.arch === 'arm64') {
+    // the distribution of the host is detected, which fails on hosts without "/etc/os-release"
+    const distribution = linuxDistribution || getLinuxArmDistribution(platform.readOsRelease())
+    return `vulkansdk-${distribution}-arm-${version}.tar.xz`
+  }
+  if (target.os === 'linux') {
     // For versions up to 1.3.250.1 the ending is ".tar.gz".
     // For versions after 1.3.250.1 the ending is ".tar.xz".
     let extension = 'tar.gz'
-    if (1 === versions.compare(version, '1.3.250.1')) {
+    if (sdkVersion.isGreaterThan('1.3.250.1')) {
       extension = 'tar.xz'
     }
-    vulkanSdkUrl = `${downloadBaseUrl}/vulkansdk-linux-x86_64-${version}.${extension}`
-  } else if (platform.IS_MAC) {
+    return `vulkansdk-linux-x86_64-${version}.${extension}`
+  }
+  if (target.os === 'mac') {
     // For versions up to 1.3.290.0 the ending is ".dmg".
     // For versios after 1.3.290.0 the ending is ".zip".
     let extension = 'dmg'
-    if (1 === versions.compare(version, '1.3.290.0')) {
+    if (sdkVersion.isGreaterThan('1.3.290.0')) {
       extension = 'zip'
     }
-    vulkanSdkUrl = `${downloadBaseUrl}/vulkansdk-macos-${version}.${extension}`
+    return `vulkansdk-macos-${version}.${extension}`
   }
+  return 'not-implemented-for-platform'
+}
 
-  await http.isDownloadable('VULKAN_SDK', version, vulkanSdkUrl)
-
-  return vulkanSdkUrl
+/**
+ * Get the candidate download URLs for Vulkan SDK, one per mirror, in order of preference.
+ *
+ * Windows:
+ * Latest Version: https://storage.googleapis.com/rerun-test-assets/vulkan/latest/windows/vulkan-sdk.exe
+ * Versionized:    https://storage.googleapis.com/rerun-test-assets/vulkan/1.3.216.0/windows/VulkanSDK-1.3.216.0-Installer.exe
+ *
+ * Warm (Windows ARM64):
+ * Latest Version: https://storage.googleapis.com/rerun-test-assets/vulkan/latest/warm/vulkan_sdk.exe
+ * Versionized:    https://storage.googleapis.com/rerun-test-assets/vulkan/1.4.304.0/warm/InstallVulkanARM64-1.4.304.0.exe
+ *
+ * Linux ARM:
+ * Versionized:    https://github.com/jakoch/vulkan-sdk-arm/releases/download/1.4.304.0/vulkansdk-ubuntu-22.04-arm-1.4.304.0.tar.xz
+ *
+ * @export
+ * @param {string} version - The SDK version to download.
+ * @param {string[]} [mirrors=[]] - The mirror templates. Empty means: use the default mirrors.
+ * @param {string} [linuxDistribution=''] - Linux ARM only: the distribution variant, e.g. "ubuntu-22.04".
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target of the download.
+ * @return {*}  {string[]} Returns the download urls.
+ */
+export function getUrlsVulkanSdk(
+  version: string,
+  mirrors: string[] = [],
+  linuxDistribution = '',
+  target: platform.Target = platform.HOST_TARGET
+): string[] {
+  let templates = mirrors
+  if (templates.length === 0) {
+    templates = target.os === 'linux' && target.arch === 'arm64' ? DEFAULT_SDK_MIRRORS_LINUX_ARM : DEFAULT_SDK_MIRRORS
+  }
+  const filename = getVulkanSdkDownloadFilename(version, linuxDistribution, target)
+  return templates.map(template => expandMirrorTemplate(template, version, filename, target))
 }
 
 /**
- * Get download URL for Vulkan Runtime.
+ * Get the candidate download URLs for Vulkan Runtime, one per mirror, in order of preference.
+ *
+ * The filename is the normalized "vulkan-runtime-components.zip".
  *
  * Windows:
  * Latest Version:  https://storage.googleapis.com/rerun-test-assets/vulkan/latest/windows/vulkan-runtime-components.zip
@@ -85,47 +337,119 @@ export async function getUrlVulkanSdk(version: string): Promise<string> {
  *
  * @export
  * @param {string} version - The runtime version to download.
- * @return {*}  {Promise<string>} Returns the download url.
+ * @param {string[]} [mirrors=[]] - The mirror templates. Empty means: use the default mirrors.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target of the download.
+ * @return {*}  {string[]} Returns the download urls.
+ */
+export function getUrlsVulkanRuntime(
+  version: string,
+  mirrors: string[] = [],
+  target: platform.Target = platform.HOST_TARGET
+): string[] {
+  const templates = mirrors.length > 0 ? mirrors : DEFAULT_RUNTIME_MIRRORS
+  return templates.map(template => expandMirrorTemplate(template, version, 'vulkan-runtime-components.zip', target))
+}
+
+/**
+ * A downloaded file and the URL it was downloaded from.
+ *
+ * @export
+ * @interface DownloadedFile
  */
-export async function getUrlVulkanRuntime(version: string): Promise<string> {
-  const Platform = platform.getPlatform()
-  const vulkanRuntimeUrl = `https://storage.googleapis.com/rerun-test-assets/vulkan/${version}/${Platform}/vulkan-runtime-components.zip`
-  await http.isDownloadable('VULKAN_RUNTIME', version, vulkanRuntimeUrl)
-  return vulkanRuntimeUrl
+export interface DownloadedFile {
+  file: string
+  url: string
 }
 
 /**
  * Download Vulkan SDK.
  *
+ * The mirrors are tried in order, the first mirror serving a file, which passes the checksum verification, wins.
+ *
  * @export
  * @param {string} version - The version to download.
- * @return {*}  {Promise<string>} Download location.
+ * @param {DownloadOptions} options - The download options.
+ * @return {*}  {Promise<DownloadedFile>} Download location and URL.
  */
-export async function downloadVulkanSdk(version: string): Promise<string> {
+export async function downloadVulkanSdk(version: string, options: DownloadOptions): Promise<DownloadedFile> {
   core.info(`🔽 Downloading Vulkan SDK ${version}`)
-  const url = await getUrlVulkanSdk(version)
-  core.info(`    URL: ${url}`)
-  const sdkPath = await tc.downloadTool(url, path.join(platform.TEMP_DIR, getVulkanSdkFilename(version)))
-  core.info(`✔️ Download completed successfully!`)
-  core.info(`   File: ${sdkPath}`)
-  return sdkPath
+  const { target } = options
+  // detect the Linux ARM distribution once, an empty value means: not Linux ARM
+  const linuxDistribution =
+    target.os === 'linux' && target.arch === 'arm64'
+      ? options.linuxDistribution || getLinuxArmDistribution(platform.readOsRelease())
+      : ''
+  return await downloadFromMirrors(
+    'VULKAN_SDK',
+    version,
+    getUrlsVulkanSdk(version, options.mirrors, linuxDistribution, target),
+    path.join(platform.TEMP_DIR, getVulkanSdkFilename(version, target)),
+    getVulkanSdkDownloadFilename(version, linuxDistribution, target),
+    options.sdkChecksum,
+    options
+  )
 }
 
 /**
  * Download Vulkan Runtime (Windows only).
  *
+ * The mirrors are tried in order, the first mirror serving a file, which passes the checksum verification, wins.
+ *
  * @export
  * @param {string} version - The version to download.
- * @return {*}  {Promise<string>} Download location.
+ * @param {DownloadOptions} options - The download options.
+ * @return {*}  {Promise<DownloadedFile>} Download location and URL.
  */
-export async function downloadVulkanRuntime(version: string): Promise<string> {
+export async function downloadVulkanRuntime(version: string, options: DownloadOptions): Promise<DownloadedFile> {
   core.info(`🔽 Downloading Vulkan Runtime ${version}`)
-  const url = await getUrlVulkanRuntime(version)
-  core.info(`   URL: ${url}`)
-  const runtimePath = await tc.downloadTool(url, path.join(platform.TEMP_DIR, `vulkan-runtime-components.zip`))
-  core.info(`✔️ Download completed successfully!`)
-  core.info(`    File: ${runtimePath}`)
-  return runtimePath
+  return await downloadFromMirrors(
+    'VULKAN_RUNTIME',
+    version,
+    getUrlsVulkanRuntime(version, options.mirrors, options.target),
+    path.join(platform.TEMP_DIR, 'vulkan-runtime-components.zip'),
+    'vulkan-runtime-components.zip',
+    options.runtimeChecksum,
+    options
+  )
+}
+
+/**
+ * Verify the SHA-256 checksum of a downloaded file, before it is extracted or executed.
+ *
+ * The expected checksum is taken from the input, the checksum manifest or the sidecar ".sha256" file on the mirror.
+ * If no checksum is available, the verification is skipped.
+ *
+ * @param {string} file - The downloaded file.
+ * @param {string} url - The download URL.
+ * @param {string} filename - The filename of the download, used for the lookup in the checksum manifest.
+ * @param {string} expectedChecksum - The checksum passed in as input, might be empty.
+ * @param {DownloadOptions} options - The download options.
+ * @return {*}  {Promise<void>}
+ */
+async function verifyDownload(
+  file: string,
+  url: string,
+  filename: string,
+  expectedChecksum: string,
+  options: DownloadOptions
+): Promise<void> {
+  const expected = await checksum.getExpectedChecksum(
+    url,
+    filename,
+    expectedChecksum,
+    options.checksumManifest,
+    options.timeout * 1000
+  )
+  if (expected === undefined) {
+    core.info(`ℹ️ No SHA-256 checksum available for '${filename}'. Skipping verification.`)
+    return
+  }
+  try {
+    await checksum.verifySha256(file, expected)
+  } catch (error) {
+    fs.rmSync(file, { force: true })
+    throw error
+  }
 }
 
 /**
@@ -133,24 +457,26 @@ export async function downloadVulkanRuntime(version: string): Promise<string> {
  *
  * @export
  * @param {string} version- The vulkan sdk version number string.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target of the download.
  * @return {*}  {string} Platform-based name for the Vulkan SDK archive or installer.
  */
-export function getVulkanSdkFilename(version: string): string {
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
+export function getVulkanSdkFilename(version: string, target: platform.Target = platform.HOST_TARGET): string {
+  const sdkVersion = versions.SdkVersion.parse(version)
+  if (target.os === 'windows') {
     return `VulkanSDK-Installer.exe`
   }
-  if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
+  if (target.os === 'linux') {
     // For versions up to 1.3.250.1 the ending is ".tar.gz".
     // For versions after 1.3.250.1 the ending is ".tar.xz".
-    if (1 === versions.compare(version, '1.3.250.1')) {
+    if (sdkVersion.isGreaterThan('1.3.250.1')) {
       return `vulkansdk-linux-x86_64.tar.xz`
     }
     return `vulkansdk-linux-x86_64.tar.gz`
   }
-  if (platform.IS_MAC) {
+  if (target.os === 'mac') {
     // For versions up to 1.3.290.0 the ending is ".dmg".
     // For versions after 1.3.290.0 the ending is ".zip".
-    if (1 === versions.compare(version, '1.3.290.0')) {
+    if (sdkVersion.isGreaterThan('1.3.290.0')) {
       return `vulkansdk-macos.zip`
     }
     return `vulkansdk-macos.dmg`
@@ -5,6 +5,9 @@
 
 import * as core from '@actions/core'
 import * as httpm from '@actions/http-client'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import { pipeline } from 'node:stream/promises'
 
 export const client: httpm.HttpClient = new httpm.HttpClient('install-vulkan-sdk-action', [], {
   keepAlive: false,
@@ -12,29 +15,199 @@ export const client: httpm.HttpClient = new httpm.HttpClient('install-vulkan-sdk
   maxRedirects: 3
 })
 
+/**
+ * Create a HTTP client, which aborts a request, if its socket is idle longer than the timeout.
+ *
+ * @export
+ * @param {number} timeout - The timeout in milliseconds.
+ * @return {*}  {httpm.HttpClient}
+ */
+export function createClient(timeout: number): httpm.HttpClient {
+  return new httpm.HttpClient('install-vulkan-sdk-action', [], {
+    keepAlive: false,
+    allowRedirects: true,
+    maxRedirects: 3,
+    socketTimeout: timeout
+  })
+}
+
+/**
+ * Retry options for HTTP requests and downloads.
+ *
+ * @export
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  // Number of retries after the first attempt.
+  retries: number
+  // Timeout of a single attempt in milliseconds.
+  timeout: number
+}
+
+// The delay before the first retry. The delay doubles with each further retry.
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 30000
+
 /**
  * is_downloadable checks, if an URL returns HTTP Status Code 200.
- * Otherwise, the action will fail.
+ *
+ * Network errors and server errors (5xx) are retried with exponential backoff,
+ * client errors (4xx) are not retried.
  *
  * @param {string} name - The nice name.
  * @param {string} version - The version of the download.
  * @param {string} url - The URL.
+ * @param {number} [retries=0] - The number of retries.
+ * @return {*}  {Promise<boolean>} True, if the URL is downloadable.
  */
-export async function isDownloadable(name: string, version: string, url: string): Promise<void> {
-  try {
-    const HttpClientResponse = await client.head(url)
-    const statusCode = HttpClientResponse.message.statusCode
-    if (statusCode !== undefined) {
-      if (statusCode >= 400) {
-        core.setFailed(`❌ Http(Error): The requested ${name} ${version} is not downloadable using URL: ${url}.`)
-      }
+export async function isDownloadable(name: string, version: string, url: string, retries = 0): Promise<boolean> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await backoff(attempt)
+    }
+    try {
+      const HttpClientResponse = await client.head(url)
+      const statusCode = HttpClientResponse.message.statusCode
       if (statusCode === 200) {
         core.info(`✔️ Http(200): The requested ${name} ${version} is downloadable.`)
+        return true
+      }
+      core.info(`❌ Http(${statusCode}): The requested ${name} ${version} is not downloadable using URL: ${url}.`)
+      if (statusCode !== undefined && statusCode < 500) {
+        return false
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        core.info(`❌ Http(Error): ${error.message}`)
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * Download a file with retries, exponential backoff and resumption.
+ *
+ * If an attempt fails after some bytes were written, the next attempt
+ * requests only the missing bytes using a HTTP Range request.
+ * A stalled or slow attempt is aborted after the per-attempt timeout.
+ * Network errors, server errors (5xx) and 429 (Too Many Requests) are retried,
+ * other client errors (4xx) fail immediately.
+ *
+ * @export
+ * @param {string} url - The URL to download.
+ * @param {string} destination - The file to download to.
+ * @param {RetryOptions} options - The retry options.
+ * @return {*}  {Promise<string>} The path of the downloaded file.
+ */
+export async function downloadFile(url: string, destination: string, options: RetryOptions): Promise<string> {
+  fs.mkdirSync(path.dirname(destination), { recursive: true })
+  fs.rmSync(destination, { force: true })
+
+  const downloadClient = createClient(options.timeout)
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    if (attempt > 0) {
+      await backoff(attempt)
+    }
+    try {
+      await downloadAttempt(downloadClient, url, destination, options.timeout)
+      return destination
+    } catch (error) {
+      const bytes = fs.existsSync(destination) ? fs.statSync(destination).size : 0
+      core.info(`❌ Download attempt ${attempt + 1} of ${options.retries + 1} failed: ${(error as Error).message}`)
+      if (attempt === options.retries || !isRetryable(error)) {
+        throw error
+      }
+      if (bytes > 0) {
+        core.info(`   Resuming download at byte ${bytes}.`)
       }
     }
-  } catch (error) {
-    if (error instanceof Error) {
-      core.setFailed(error.message)
+  }
+  return destination
+}
+
+/**
+ * A single download attempt.
+ *
+ * Resumes a partially downloaded file, if the server supports HTTP Range requests.
+ * Otherwise, the file is downloaded from the start.
+ *
+ * @param {httpm.HttpClient} downloadClient - The HTTP client.
+ * @param {string} url - The URL to download.
+ * @param {string} destination - The file to download to.
+ * @param {number} timeout - The timeout of the attempt in milliseconds.
+ * @return {*}  {Promise<void>}
+ */
+async function downloadAttempt(
+  downloadClient: httpm.HttpClient,
+  url: string,
+  destination: string,
+  timeout: number
+): Promise<void> {
+  const offset = fs.existsSync(destination) ? fs.statSync(destination).size : 0
+  const headers: Record<string, string> = offset > 0 ? { range: `bytes=${offset}-` } : {}
+
+  const response = await downloadClient.get(url, headers)
+  const statusCode = response.message.statusCode
+
+  if (offset > 0 && statusCode === 416) {
+    // the requested range is not satisfiable: the file is complete, if the total size equals the offset
+    response.message.resume()
+    const total = response.message.headers['content-range']?.match(/\/(\d+)$/)?.[1]
+    if (total !== undefined && Number.parseInt(total) === offset) {
+      return
+    }
+    fs.rmSync(destination, { force: true })
+    throw new Error(`Http(416): Unable to resume the download of ${url}.`)
+  }
+  if (statusCode !== 200 && statusCode !== 206) {
+    response.message.resume()
+    throw new httpm.HttpClientError(`Http(${statusCode}): Unable to download ${url}.`, statusCode ?? 0)
+  }
+
+  // 206 = Partial Content: append the missing bytes. 200 = the server ignored the range: start over.
+  const flags = statusCode === 206 ? 'a' : 'w'
+  const expectedBytes = Number.parseInt(response.message.headers['content-length'] ?? '')
+
+  const timer = setTimeout(() => {
+    response.message.destroy(new Error(`The download attempt timed out after ${timeout / 1000} seconds.`))
+  }, timeout)
+  try {
+    const start = flags === 'a' ? offset : 0
+    await pipeline(response.message, fs.createWriteStream(destination, { flags }))
+    const writtenBytes = fs.statSync(destination).size - start
+    if (!Number.isNaN(expectedBytes) && writtenBytes < expectedBytes) {
+      throw new Error(`Incomplete download: received ${writtenBytes} of ${expectedBytes} bytes.`)
     }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Check, if a failed download attempt is worth a retry.
+ *
+ * @param {unknown} error - The error of the attempt.
+ * @return {*}  {boolean} False for client errors (4xx) except 429, true otherwise.
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof httpm.HttpClientError && error.statusCode >= 400 && error.statusCode < 500) {
+    return error.statusCode === 429
   }
+  return true
+}
+
+/**
+ * Wait before a retry. The delay doubles with each attempt (1s, 2s, 4s, ...).
+ *
+ * @param {number} attempt - The number of the retry, starting at 1.
+ * @return {*}  {Promise<void>}
+ */
+function backoff(attempt: number): Promise<void> {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS)
+  core.info(`   Retrying in ${delay / 1000} seconds...`)
+  return new Promise(resolve => {
+    setTimeout(resolve, delay)
+  })
 }
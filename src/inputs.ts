@@ -4,9 +4,15 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as core from '@actions/core'
+import * as fs from 'node:fs'
 import * as path from 'node:path'
+import * as checksum from './checksum'
+import * as downloader from './downloader'
 import * as platform from './platform'
-import * as versionsVulkan from './versions_vulkan'
+import * as softwareDriver from './software_driver'
+import * as stripdown from './stripdown'
+import * as validate from './validate'
+import * as versions from './versions'
 
 /**
  * List of available Input arguments
@@ -15,12 +21,35 @@ import * as versionsVulkan from './versions_vulkan'
  * @interface Inputs
  */
 export interface Inputs {
+  // the first requested version, which is the active version
   version: string
+  // all requested versions, installed side-by-side
+  versions: string[]
   destination: string
   installRuntime: boolean
   useCache: boolean
   optionalComponents: string[]
+  optionalComponentsStrict: boolean
   stripdown: boolean
+  stripdownProfile: string
+  stripdownInclude: string[]
+  stripdownExclude: string[]
+  mirrors: string[]
+  sdkChecksum: string
+  runtimeChecksum: string
+  checksumManifest: string
+  downloadRetries: number
+  downloadTimeout: number
+  sdkArchive: string
+  useToolCache: boolean
+  softwareDriver: string
+  softwareDriverArchive: string
+  vulkanInfo: boolean
+  requiredExtensions: string[]
+  verifyOnly: boolean
+  linuxDistribution: string
+  // the platform and architecture of the SDK, the host by default
+  target: platform.Target
 }
 
 /**
@@ -28,66 +57,148 @@ export interface Inputs {
  *
  * If an input argument requires validation beyond a simple boolean check,
  * individual getter functions are used for incoming argument validation.
+ * The errors of all getters are collected and reported together, see validate.validateInputs().
  *
  * @export
  * @return {*}  {Promise<Inputs>}
  */
 export async function getInputs(): Promise<Inputs> {
-  return {
-    // Warning: This is intentionally "vulkan_version" to avoid unexpected behavior due to naming conflicts.
-    // Do not simply use "version", because if "with: version:" is not set (default to latest is wanted),
-    // but an environment variable is defined, that will be used (version = env.VERSION)
-    // VERSION is often set to env for artifact names.
-    version: await getInputVersion(core.getInput('vulkan_version', { required: false })),
-    destination: await getInputDestination(core.getInput('destination', { required: false })),
+  const errors: string[] = []
+  const collect = <T>(getter: () => T, fallback: T): T => {
+    try {
+      return getter()
+    } catch (error) {
+      errors.push((error as Error).message)
+      return fallback
+    }
+  }
+
+  // Warning: This is intentionally "vulkan_version" to avoid unexpected behavior due to naming conflicts.
+  // Do not simply use "version", because if "with: version:" is not set (default to latest is wanted),
+  // but an environment variable is defined, that will be used (version = env.VERSION)
+  // VERSION is often set to env for artifact names.
+  const versions = collect(() => getInputVersions(core.getInput('vulkan_version', { required: false })), ['latest'])
+  const inputs: Inputs = {
+    version: versions[0],
+    versions,
+    destination: getInputDestination(core.getInput('destination', { required: false })),
     installRuntime: /true/i.test(core.getInput('install_runtime', { required: false })),
     useCache: /true/i.test(core.getInput('cache', { required: false })),
-    optionalComponents: await getInputOptionalComponents(core.getInput('optional_components', { required: false })),
-    stripdown: /true/i.test(core.getInput('stripdown', { required: false }))
+    optionalComponents: getInputOptionalComponents(core.getInput('optional_components', { required: false })),
+    optionalComponentsStrict: /true/i.test(core.getInput('optional_components_strict', { required: false })),
+    ...collect(() => getInputStripdown(core.getInput('stripdown', { required: false })), {
+      stripdown: false,
+      stripdownProfile: ''
+    }),
+    stripdownInclude: getInputGlobs(core.getInput('stripdown_include', { required: false })),
+    stripdownExclude: getInputGlobs(core.getInput('stripdown_exclude', { required: false })),
+    mirrors: collect(() => getInputMirrors(core.getInput('mirrors', { required: false })), []),
+    sdkChecksum: collect(
+      () => getInputChecksum('sdk_checksum', core.getInput('sdk_checksum', { required: false })),
+      ''
+    ),
+    runtimeChecksum: collect(
+      () => getInputChecksum('runtime_checksum', core.getInput('runtime_checksum', { required: false })),
+      ''
+    ),
+    checksumManifest: core.getInput('checksum_manifest', { required: false }),
+    downloadRetries: collect(
+      () => getInputNumber('download_retries', core.getInput('download_retries', { required: false }), 3),
+      3
+    ),
+    downloadTimeout: collect(
+      () => getInputNumber('download_timeout', core.getInput('download_timeout', { required: false }), 900),
+      900
+    ),
+    sdkArchive: collect(() => getInputSdkArchive(core.getInput('sdk_archive', { required: false })), ''),
+    useToolCache: /true/i.test(core.getInput('tool_cache', { required: false })),
+    softwareDriver: collect(() => getInputSoftwareDriver(core.getInput('software_driver', { required: false })), ''),
+    softwareDriverArchive: core.getInput('software_driver_archive', { required: false }),
+    vulkanInfo: /true/i.test(core.getInput('vulkaninfo', { required: false })),
+    requiredExtensions: collect(
+      () => getInputRequiredExtensions(core.getInput('required_extensions', { required: false })),
+      []
+    ),
+    verifyOnly: /true/i.test(core.getInput('verify_only', { required: false })),
+    linuxDistribution: collect(
+      () => getInputLinuxDistribution(core.getInput('linux_distribution', { required: false })),
+      ''
+    ),
+    target: collect(
+      () =>
+        getInputTarget(
+          core.getInput('target_platform', { required: false }),
+          core.getInput('target_arch', { required: false })
+        ),
+      platform.HOST_TARGET
+    )
   }
+
+  await validate.validateInputs(inputs, errors)
+
+  return inputs
 }
 
 /**
  * GetInputVersion validates the "version" argument.
  * If "vulkan_version" was not set or is empty, assume "latest" version.
+ * Besides "latest" and exact version numbers, version ranges like "1.3.x" or ">=1.3.250 <1.4" are accepted.
  *
  * @export
  * @param {string} requested_version
- * @return {*}  {Promise<string>}
+ * @return {*}  {string}
  */
-export async function getInputVersion(requestedVersion: string): Promise<string> {
+export function getInputVersion(requestedVersion: string): string {
   // if "vulkan_version" was not set or is empty, assume "latest" version
   if (requestedVersion === '') {
     requestedVersion = 'latest'
     return requestedVersion
   }
 
-  // throw error, if requestedVersion is a crappy version number
-  if (!requestedVersion && !validateVersion(requestedVersion)) {
-    const availableVersions = await versionsVulkan.getAvailableVersions()
-    const versions = JSON.stringify(availableVersions, null, 2)
+  if (requestedVersion === 'latest') {
+    return requestedVersion
+  }
 
+  // throw error, if requestedVersion is a crappy version number or range
+  if (!validateVersion(requestedVersion) && !versions.isRange(requestedVersion)) {
     throw new Error(
-      `Invalid format of "vulkan_version: (${requestedVersion}").
-       Please specify a version using the format 'major.minor.build.rev'.
-       The following versions are available: ${versions}.`
+      `Invalid "vulkan_version: ${requestedVersion}". Please specify "latest", a version number using the format 'major.minor.build.rev' (e.g. '1.3.250.1') or a version range (e.g. '1.3.x' or '>=1.3.250 <1.4').`
     )
   }
 
   return requestedVersion
 }
 
+/**
+ * getInputVersions splits the "vulkan_version" argument into a list of versions.
+ *
+ * The list is newline- or comma-separated, e.g. "1.3.250.1, latest". The versions are installed side-by-side,
+ * the first version is the active one (VULKAN_SDK, PATH). Each version is validated by getInputVersion().
+ *
+ * @export
+ * @param {string} requestedVersions
+ * @return {*}  {string[]} The versions, at least "latest".
+ */
+export function getInputVersions(requestedVersions: string): string[] {
+  const versions = requestedVersions
+    .split(/[\n,]/)
+    .map((item: string) => item.trim())
+    .filter(Boolean)
+    .map(getInputVersion)
+  return versions.length ? [...new Set(versions)] : ['latest']
+}
+
 /**
  * Validates a version number to conform with the
  * "major.minor.patch.revision" ("1.2.3.4") versioning scheme.
+ * The revision may carry an optional suffix, e.g. "1.2.3.4a".
  *
  * @export
  * @param {string} version
  * @return {*}  {boolean}
  */
 export function validateVersion(version: string): boolean {
-  const re = /^\d+\.\d+\.\d+\.\d+$/
-  return re.test(version)
+  return versions.SdkVersion.tryParse(version) !== null
 }
 
 /**
@@ -121,10 +232,10 @@ export function getInputDestination(destination: string): string {
 }
 
 /**
- * getInputOptionalComponents validates the "optional_components" argument.
+ * getInputOptionalComponents splits the "optional_components" argument.
  *
- * https://vulkan.lunarg.com/doc/view/latest/windows/getting_started.html#user-content-installing-optional-components
- * list components on windows: "maintenancetool.exe list" or "installer.exe search"
+ * The components are validated against the component registry, after the version is resolved,
+ * see components.resolveOptionalComponents().
  *
  * @export
  * @param {string} optional_components
@@ -135,36 +246,230 @@ export function getInputOptionalComponents(optionalComponents: string): string[]
     return []
   }
 
-  const optionalComponentsAllowlist: string[] = [
-    'com.lunarg.vulkan.32bit',
-    'com.lunarg.vulkan.sdl2',
-    'com.lunarg.vulkan.glm',
-    'com.lunarg.vulkan.volk',
-    'com.lunarg.vulkan.vma',
-    'com.lunarg.vulkan.debug32',
-    // components of old installers
-    'com.lunarg.vulkan.thirdparty',
-    'com.lunarg.vulkan.debug'
-  ]
-
-  const inputComponents: string[] = optionalComponents
+  return optionalComponents
     .split(',')
     .map((item: string) => item.trim())
     .filter(Boolean)
+}
+
+/**
+ * getInputStripdown validates the "stripdown" argument.
+ *
+ * The argument is "true" (profile "full"), "false" or the name of a stripdown profile,
+ * e.g. "minimal-headers-loader" or "compiler-tools".
+ *
+ * @export
+ * @param {string} value
+ * @return {*}  {{ stripdown: boolean; stripdownProfile: string }}
+ */
+export function getInputStripdown(value: string): { stripdown: boolean; stripdownProfile: string } {
+  const profile = value.trim().toLowerCase()
+  if (profile === '' || profile === 'false') {
+    return { stripdown: false, stripdownProfile: '' }
+  }
+  if (profile === 'true') {
+    return { stripdown: true, stripdownProfile: 'full' }
+  }
+  const profiles = Object.keys(stripdown.STRIPDOWN_PROFILES)
+  if (!profiles.includes(profile)) {
+    throw new Error(
+      `Invalid "stripdown: ${value}". Please specify "true", "false" or one of the profiles: ${profiles.join(', ')}.`
+    )
+  }
+  return { stripdown: true, stripdownProfile: profile }
+}
+
+/**
+ * getInputGlobs splits a newline- or comma-separated list of glob patterns,
+ * e.g. the "stripdown_include" and "stripdown_exclude" arguments.
+ *
+ * @export
+ * @param {string} globs
+ * @return {*}  {string[]}
+ */
+export function getInputGlobs(globs: string): string[] {
+  return globs
+    .split(/[\n,]/)
+    .map((item: string) => item.trim())
+    .filter(Boolean)
+}
 
-  const invalidInputComponents: string[] = inputComponents.filter(
-    item => optionalComponentsAllowlist.includes(item) === false
-  )
-  if (invalidInputComponents.length) {
-    core.info(`❌ Please remove the following invalid optional_components: ${invalidInputComponents}`)
+/**
+ * getInputMirrors validates the "mirrors" argument.
+ *
+ * The argument is a newline- or comma-separated list of templated base URLs,
+ * using the placeholders {version}, {platform} and {filename}.
+ * The mirrors are tried in order. An empty list means: use the default mirrors.
+ *
+ * @export
+ * @param {string} mirrors
+ * @return {*}  {string[]}
+ */
+export function getInputMirrors(mirrors: string): string[] {
+  if (!mirrors) {
+    return []
   }
 
-  const validInputComponents: string[] = inputComponents.filter(
-    item => optionalComponentsAllowlist.includes(item) === true
-  )
-  if (validInputComponents.length) {
-    core.info(`✔️ Installing Optional Components: ${validInputComponents}`)
+  const inputMirrors: string[] = mirrors
+    .split(/[\n,]/)
+    .map((item: string) => item.trim())
+    .filter(Boolean)
+
+  const invalidMirrors: string[] = inputMirrors.filter(item => !/^https?:\/\//i.test(item))
+  if (invalidMirrors.length) {
+    throw new Error(`Invalid "mirrors": ${invalidMirrors}. Please specify URLs starting with "https://" or "http://".`)
   }
 
-  return validInputComponents
+  core.info(`Mirrors: ${inputMirrors.join(', ')}`)
+
+  return inputMirrors
+}
+
+/**
+ * getInputChecksum validates a SHA-256 checksum argument ("sdk_checksum", "runtime_checksum").
+ *
+ * @export
+ * @param {string} name - The name of the argument.
+ * @param {string} value - The checksum, 64 hex characters with optional "sha256:" prefix.
+ * @return {*}  {string} The normalized checksum or an empty string, if not set.
+ */
+export function getInputChecksum(name: string, value: string): string {
+  if (!value) {
+    return ''
+  }
+  if (!checksum.isSha256(value)) {
+    throw new Error(`Invalid "${name}: ${value}". Please specify a SHA-256 checksum (64 hex characters).`)
+  }
+  return checksum.normalizeSha256(value)
+}
+
+/**
+ * getInputNumber validates a numeric argument, e.g. "download_retries".
+ *
+ * @export
+ * @param {string} name - The name of the argument.
+ * @param {string} value - The value of the argument.
+ * @param {number} defaultValue - The default value, if the argument is not set.
+ * @return {*}  {number}
+ */
+export function getInputNumber(name: string, value: string, defaultValue: number): number {
+  if (!value) {
+    return defaultValue
+  }
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid "${name}: ${value}". Please specify a non-negative integer.`)
+  }
+  return Number.parseInt(value.trim())
+}
+
+/**
+ * getInputSdkArchive validates the "sdk_archive" argument.
+ *
+ * The argument is the path to a pre-downloaded Vulkan SDK archive or installer (offline mode).
+ *
+ * @export
+ * @param {string} sdkArchive
+ * @return {*}  {string} The normalized path or an empty string, if not set.
+ */
+export function getInputSdkArchive(sdkArchive: string): string {
+  if (!sdkArchive) {
+    return ''
+  }
+  const file = path.resolve(sdkArchive)
+  if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    throw new Error(`Invalid "sdk_archive: ${sdkArchive}". The file does not exist.`)
+  }
+  return file
+}
+
+/**
+ * getInputSoftwareDriver validates the "software_driver" argument.
+ *
+ * @export
+ * @param {string} value - The name of the software driver, "lavapipe" or "swiftshader".
+ * @return {*}  {string} The name of the software driver or an empty string, if not set.
+ */
+export function getInputSoftwareDriver(value: string): string {
+  const name = value.trim().toLowerCase()
+  if (name === '' || name === 'false' || name === 'none') {
+    return ''
+  }
+  const drivers = Object.keys(softwareDriver.SOFTWARE_DRIVERS)
+  if (!drivers.includes(name)) {
+    throw new Error(`Invalid "software_driver: ${value}". Please specify one of: ${drivers.join(', ')}.`)
+  }
+  return name
+}
+
+/**
+ * getInputRequiredExtensions validates the "required_extensions" argument.
+ *
+ * The argument is a newline- or comma-separated list of Vulkan extensions, e.g. "VK_KHR_swapchain".
+ *
+ * @export
+ * @param {string} value
+ * @return {*}  {string[]}
+ */
+export function getInputRequiredExtensions(value: string): string[] {
+  const extensions = value
+    .split(/[\n,]/)
+    .map((item: string) => item.trim())
+    .filter(Boolean)
+
+  const invalidExtensions = extensions.filter(item => !/^VK_\w+$/.test(item))
+  if (invalidExtensions.length) {
+    throw new Error(
+      `Invalid "required_extensions": ${invalidExtensions.join(', ')}. Please specify extension names, e.g. "VK_KHR_swapchain".`
+    )
+  }
+  return extensions
+}
+
+/**
+ * getInputLinuxDistribution validates the "linux_distribution" argument.
+ *
+ * The argument overrides the detected distribution variant of the Vulkan SDK for Linux ARM.
+ *
+ * @export
+ * @param {string} value - The distribution variant, e.g. "ubuntu-22.04".
+ * @return {*}  {string} The distribution variant or an empty string, if not set.
+ */
+export function getInputLinuxDistribution(value: string): string {
+  const distribution = value.trim().toLowerCase()
+  if (distribution === '') {
+    return ''
+  }
+  if (!downloader.LINUX_ARM_DISTRIBUTIONS.includes(distribution)) {
+    throw new Error(
+      `Invalid "linux_distribution: ${value}". Please specify one of: ${downloader.LINUX_ARM_DISTRIBUTIONS.join(', ')}.`
+    )
+  }
+  return distribution
+}
+
+/**
+ * getInputTarget validates the "target_platform" and "target_arch" arguments.
+ *
+ * The target selects the SDK to fetch, independently of the host, e.g. the Windows SDK on a Linux runner.
+ * Each argument defaults to the platform or architecture of the host.
+ *
+ * @export
+ * @param {string} targetPlatform - The platform, "windows", "linux" or "mac".
+ * @param {string} targetArch - The architecture, "x64" or "arm64".
+ * @return {*}  {platform.Target}
+ */
+export function getInputTarget(targetPlatform: string, targetArch: string): platform.Target {
+  const os = targetPlatform.trim().toLowerCase() || platform.HOST_TARGET.os
+  if (os !== 'windows' && os !== 'linux' && os !== 'mac') {
+    throw new Error(`Invalid "target_platform: ${targetPlatform}". Please specify one of: windows, linux, mac.`)
+  }
+  const arch = targetArch.trim().toLowerCase() || platform.HOST_TARGET.arch
+  if (arch !== 'x64' && arch !== 'arm64') {
+    throw new Error(`Invalid "target_arch: ${targetArch}". Please specify one of: x64, arm64.`)
+  }
+  const target: platform.Target = { os, arch }
+  if (!platform.isHostTarget(target)) {
+    core.info(`Target: ${platform.getTargetPlatform(target)} (${arch})`)
+  }
+  return target
 }
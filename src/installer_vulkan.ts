@@ -5,10 +5,13 @@
 
 import * as core from '@actions/core'
 import * as tc from '@actions/tool-cache'
-import { execSync } from 'node:child_process'
+import { execFileSync, execSync } from 'node:child_process'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
+import * as components from './components'
 import * as platform from './platform'
+import * as stripdown from './stripdown'
+import * as versions from './versions'
 
 /**
  * Install the Vulkan SDK.
@@ -18,13 +21,15 @@ import * as platform from './platform'
  * @param {string} destination - Installation destination path.
  * @param {string} version - Vulkan SDK version.
  * @param {string[]} optional_components - Array of optional components to install.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
  * @return {*}  {Promise<string>} - Installation path.
  */
 export async function installVulkanSdk(
   sdkPath: string,
   destination: string,
   version: string,
-  optionalComponents: string[]
+  optionalComponents: string[],
+  target: platform.Target = platform.HOST_TARGET
 ): Promise<string> {
   let installPath = ''
 
@@ -33,20 +38,23 @@ export async function installVulkanSdk(
   // changing the destination to a versionised folder, e.g. "/Users/runner/vulkan-sdk/1.4.304.0"
   const versionizedDestinationPath = path.normalize(`${destination}/${version}`)
 
-  if (platform.IS_MAC) {
+  if (target.os === 'mac') {
     // handle version dependend installation procedure change (dmg/zip)
-    if (version <= '1.3.290.0') {
+    if (!versions.SdkVersion.parse(version).isGreaterThan('1.3.290.0')) {
       // the sdk is a .dmg
       installPath = await installVulkanSdkMacDmg(sdkPath, versionizedDestinationPath, optionalComponents)
     } else {
       // the sdk is a .zip
       installPath = await installVulkanSdkMacZip(sdkPath, versionizedDestinationPath, optionalComponents)
     }
-  } else if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
+  } else if (target.os === 'linux') {
     // the archive extracts a "1.3.250.1" top-level dir
-    installPath = await installVulkanSdkLinux(sdkPath, destination, optionalComponents)
-  } else if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
+    installPath = await installVulkanSdkLinux(sdkPath, destination, version, optionalComponents)
+  } else if (platform.isHostTarget(target)) {
     installPath = await installVulkanSdkWindows(sdkPath, versionizedDestinationPath, optionalComponents)
+  } else {
+    // the Windows installer can't be executed on this host, e.g. when cross-compiling on Linux
+    installPath = await extractVulkanSdkWindows(sdkPath, versionizedDestinationPath)
   }
 
   core.info(`   Installed into folder: ${installPath}`)
@@ -57,19 +65,26 @@ export async function installVulkanSdk(
 /**
  * Install the Vulkan SDK on a Linux system.
  *
+ * The tarball contains all components. The components, which were not requested, are removed afterwards,
+ * so that an empty selection installs only the base SDK, like on the other platforms.
+ *
  * @export
  * @param {string} sdk_path - Path to the Vulkan SDK installer executable.
  * @param {string} destination - Installation destination path.
+ * @param {string} version - Vulkan SDK version.
  * @param {string[]} optional_components - Array of optional components to install.
  * @return {*}  {Promise<string>} - Installation path.
  */
 export async function installVulkanSdkLinux(
   sdkPath: string,
   destination: string,
+  version: string,
   optionalComponents: string[]
 ): Promise<string> {
   const installPath = await extractArchive(sdkPath, destination)
 
+  components.pruneLinuxComponents(path.normalize(`${destination}/${version}`), optionalComponents)
+
   return installPath
 }
 
@@ -257,6 +272,23 @@ export async function installVulkanSdkWindows(
   return destination
 }
 
+/**
+ * Extract the Vulkan SDK from the Windows installer on a non-Windows host.
+ *
+ * The installer is not executed, its payload is extracted with 7z.
+ * All components contained in the installer are extracted, optional components can't be selected.
+ *
+ * @export
+ * @param {string} sdk_path - Path to the Vulkan SDK installer executable.
+ * @param {string} destination - Installation destination path, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @return {*}  {Promise<string>} - Installation path.
+ */
+export async function extractVulkanSdkWindows(sdkPath: string, destination: string): Promise<string> {
+  fs.mkdirSync(destination, { recursive: true })
+  await extract7z(sdkPath, destination)
+  return destination
+}
+
 /**
  * Install the Vulkan Runtime
  *
@@ -291,55 +323,63 @@ export async function installVulkanRuntime(runtimePath: string, destination: str
 }
 
 /**
- * Extracts an archive file to a specified destination based on the platform and file type.
+ * Extracts an archive file to a specified destination based on the file type.
  *
  * @param {string} file - The path to the archive file to be extracted.
  * @param {string} destination - The destination directory where the archive contents will be extracted.
  * @return {*}  {Promise<string>} A Promise that resolves to the destination directory path after extraction.
  */
 async function extractArchive(file: string, destination: string): Promise<string> {
-  const flags: string[] = []
-
-  let extract: (
-    file: string,
-    destination: string,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    flags: string[]
-  ) => Promise<string> = (file, destination, flags) => {
-    throw new Error('Extraction function is not properly assigned.')
+  if (file.endsWith('.exe') || file.endsWith('.dmg')) {
+    // No extraction needed: the .exe installer is executed, the .dmg is mounted
+    return destination
+  }
+  if (file.endsWith('.zip')) {
+    return await tc.extractZip(file, destination)
+  }
+  if (file.endsWith('.7z')) {
+    return await extract7z(file, destination)
+  }
+  if (file.endsWith('.tar.gz') || file.endsWith('.tgz')) {
+    // extractTar defaults to 'xz' (extracting gzipped tars).
+    return await tc.extractTar(file, destination)
+  }
+  if (file.endsWith('.tar.xz')) {
+    // https://www.man7.org/linux/man-pages/man1/tar.1.html
+    // -J or --xz = filter archive through xz
+    // -x for extract
+    // note: ".tar.bz2" is "-xj"
+    return await tc.extractTar(file, destination, ['-xJ'])
   }
+  throw new Error(`Unable to extract '${file}'. The file type is not supported.`)
+}
 
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
-    if (file.endsWith('.exe')) {
-      // No extraction needed for .exe files
-      return destination
-    } else if (file.endsWith('.zip')) {
-      extract = (file, destination) => tc.extractZip(file, destination)
-    } else if (file.endsWith('.7z')) {
-      extract = (file, destination) => tc.extract7z(file, destination)
-    }
-  } else if (platform.IS_MAC) {
-    if (file.endsWith('.zip')) {
-      extract = (file, destination) => tc.extractZip(file, destination)
-    } else if (file.endsWith('.dmg')) {
-      // No extraction needed for .dmg files, we just mount them
-      return destination
-    }
-  } else if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
-    if (file.endsWith('.tar.gz')) {
-      // extractTar defaults to 'xz' (extracting gzipped tars).
-      extract = (file, destination) => tc.extractTar(file, destination)
-    } else if (file.endsWith('.tar.xz')) {
-      // https://www.man7.org/linux/man-pages/man1/tar.1.html
-      // -J or --xz = filter archive through xz
-      // -x for extract
-      // note: ".tar.bz2" is "-xj"
-      flags.push('-xJ')
-      extract = (file, destination, flags) => tc.extractTar(file, destination, flags)
+/**
+ * Extracts a 7z archive or an installer with an embedded 7z payload.
+ *
+ * On Windows, ".7z" archives are extracted with the 7zr.exe bundled with the tool-cache.
+ * Installers and the other hosts need "7z" on PATH, e.g. from p7zip.
+ *
+ * @export
+ * @param {string} file - The path to the archive file to be extracted.
+ * @param {string} destination - The destination directory where the archive contents will be extracted.
+ * @return {*}  {Promise<string>} A Promise that resolves to the destination directory path after extraction.
+ */
+export async function extract7z(file: string, destination: string): Promise<string> {
+  if (platform.IS_WINDOWS && file.endsWith('.7z')) {
+    return await tc.extract7z(file, destination)
+  }
+  try {
+    execFileSync('7z', ['x', '-y', `-o${destination}`, file], { stdio: 'ignore' })
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(
+        `Extracting '${file}' requires "7z" on PATH. Please install it, e.g. "apt-get install p7zip-full".`
+      )
     }
+    throw error
   }
-
-  return await extract(file, destination, flags)
+  return destination
 }
 
 /**
@@ -352,18 +392,15 @@ async function extractArchive(file: string, destination: string): Promise<string
  * Linux ARM: "/usr/vulkan-sdk/1.2.3.4/aarch64/bin/vulkaninfo"
  *
  * @param {string} sdk_install_path - The installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\1.2.3.4\x86_64".
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
  * @return {*}  {string}
  * @export
  */
-export function getVulkanInfoPath(sdkInstallPath: string): string {
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
-    return path.join(sdkInstallPath, 'bin/vulkaninfoSDK.exe')
-  }
-  if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
-    return path.join(sdkInstallPath, 'bin/vulkaninfo')
-  }
-  if (platform.IS_MAC) {
-    return path.join(sdkInstallPath, 'bin/vulkaninfo')
+export function getVulkanInfoPath(sdkInstallPath: string, target: platform.Target = platform.HOST_TARGET): string {
+  if (target.os === 'windows') {
+    // the installer creates "Bin", which is found as "bin" only on case-insensitive file systems
+    const bin = fs.existsSync(path.join(sdkInstallPath, 'bin')) ? 'bin' : 'Bin'
+    return path.join(sdkInstallPath, bin, 'vulkaninfoSDK.exe')
   }
   return path.join(sdkInstallPath, 'bin/vulkaninfo')
 }
@@ -379,27 +416,32 @@ export function getVulkanInfoPath(sdkInstallPath: string): string {
  *
  * @param {string} sdk_path - The installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\
  * @param {string} version - The version of the Vulkan SDK
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
  * @return {*}  {string}
  * @export
  */
-export function getVulkanSdkPath(sdkPath: string, version: string): string {
+export function getVulkanSdkPath(
+  sdkPath: string,
+  version: string,
+  target: platform.Target = platform.HOST_TARGET
+): string {
   // let install_path be a versionized path to the SDK
   let installPath = sdkPath
-  if (!sdkPath.includes(version)) {
+  if (!containsVersionFolder(sdkPath, version)) {
     installPath = path.join(sdkPath, version)
   }
 
   // let install_path contain the target architecture (x86_64, aarch64)
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
+  if (target.os === 'windows') {
     // windows has no target architecture, its just "C:\VulkanSDK\1.4.304.0\bin"
     // install_path is a versionized path, fallthrough
   }
-  // note: LINUX_ARM must be checked before LINUX
-  else if (platform.IS_LINUX_ARM) {
+  // note: Linux ARM must be checked before Linux
+  else if (target.os === 'linux' && target.arch === 'arm64') {
     installPath = path.join(installPath, 'aarch64')
-  } else if (platform.IS_LINUX) {
+  } else if (target.os === 'linux') {
     installPath = path.join(installPath, 'x86_64')
-  } else if (platform.IS_MAC) {
+  } else if (target.os === 'mac') {
     installPath = path.join(installPath, 'macOS')
   }
 
@@ -411,6 +453,21 @@ export function getVulkanSdkPath(sdkPath: string, version: string): string {
   return installPath
 }
 
+/**
+ * Check, if one of the folders of a path is the given version, e.g. "C:\VulkanSDK\1.3.250.1".
+ *
+ * @param {string} folder - The path to check.
+ * @param {string} version - The version of the Vulkan SDK.
+ * @return {*}  {boolean}
+ */
+function containsVersionFolder(folder: string, version: string): boolean {
+  const sdkVersion = versions.SdkVersion.parse(version)
+  return path
+    .normalize(folder)
+    .split(/[\\/]/)
+    .some(segment => versions.SdkVersion.tryParse(segment)?.equals(sdkVersion))
+}
+
 /**
  * Verify the installation of the SDK.
  *
@@ -418,53 +475,33 @@ export function getVulkanSdkPath(sdkPath: string, version: string): string {
  *
  * @export
  * @param {string} sdk_install_path - The installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\1.3.250.1\x86_x64".
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
  * @return {*}  {boolean}
  */
-export function verifyInstallationOfSdk(sdkInstallPath: string): boolean {
+export function verifyInstallationOfSdk(
+  sdkInstallPath: string,
+  target: platform.Target = platform.HOST_TARGET
+): boolean {
   let r = false
-  const file = getVulkanInfoPath(sdkInstallPath)
+  const file = getVulkanInfoPath(sdkInstallPath, target)
   r = fs.existsSync(file)
   return r
 }
 
-/**
- * Run the vulkaninfo command.
- *
- * Runs the "vulkaninfo --summary" command, if it exists.
- * and log the output in a collapsible section in the workflow logs.
- *
- * @param {string} vulkanInfoPath - The path to the "vulkaninfo" executable.
- */
-export function runVulkanInfo(vulkanInfoPath: string): void {
-  if (fs.existsSync(vulkanInfoPath)) {
-    core.startGroup(`Vulkan Info Summary`)
-    const runVulkanInfoCmd = `${vulkanInfoPath} --summary`
-    try {
-      const stdout: string = execSync(runVulkanInfoCmd).toString().trim()
-      process.stdout.write(stdout)
-    } catch (error) {
-      if (error instanceof Error) {
-        core.error(error.message)
-      } else {
-        core.error('An unknown error occurred while running vulkaninfo.')
-      }
-    }
-    core.endGroup()
-  } else {
-    core.warning(`vulkaninfo executable not found at path: ${vulkanInfoPath}`)
-  }
-}
-
 /**
  * Verify the installation of the Vulkan Runtime.
  *
  * @export
  * @param {string} sdk_install_path - The installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\1.3.250.1".
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
  * @return {*}  {boolean}
  */
-export function verifyInstallationOfRuntime(sdkInstallPath: string): boolean {
+export function verifyInstallationOfRuntime(
+  sdkInstallPath: string,
+  target: platform.Target = platform.HOST_TARGET
+): boolean {
   let r = false
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
+  if (target.os === 'windows') {
     const file = `${sdkInstallPath}/runtime/x64/vulkan-1.dll`
     r = fs.existsSync(file)
   }
@@ -472,81 +509,32 @@ export function verifyInstallationOfRuntime(sdkInstallPath: string): boolean {
 }
 
 /**
- * Stripdown the installation of the Vulkan SDK (only windows).
+ * Stripdown the installation of the Vulkan SDK.
  * This reduces the size of the SDK before caching.
  * It removes superflous files given the CI context this action runs in,
- * e.g. removing demos and removing the maintainance-tool.exe.
+ * e.g. removing demos, samples, docs and the maintainance-tool.exe.
  *
  * @export
- * @param {string} sdk_install_path - The installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\1.3.250.1".
+ * @param {string} sdk_install_path - The versionized installation path of the Vulkan SDK, e.g. "C:\VulkanSDK\1.3.250.1".
+ * @param {string} [profile='full'] - The stripdown profile, e.g. "full", "compiler-tools" or "minimal-headers-loader".
+ * @param {string[]} [include=[]] - The globs of files to keep in any case.
+ * @param {string[]} [exclude=[]] - The globs of files to remove in any case.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
+ * @return {*}  {stripdown.StripdownResult}
  */
-export function stripdownInstallationOfSdk(sdkInstallPath: string): void {
-  if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
-    core.info(`✂ Reducing Vulkan SDK size before caching`)
-    let foldersToDelete: string[] = []
-    foldersToDelete = [
-      `${sdkInstallPath}\\Demos`,
-      `${sdkInstallPath}\\Helpers`,
-      `${sdkInstallPath}\\installerResources`,
-      `${sdkInstallPath}\\Licenses`,
-      `${sdkInstallPath}\\Templates`
-      // old installers had
-      //`${sdk_install_path}\\Bin32`,
-      //`${sdk_install_path}\\Tools32`,
-      //`${sdk_install_path}\\Lib32`,
-    ]
-    removeFoldersIfExist(foldersToDelete)
-
-    // this deletes the files in the top-level folder
-    // e.g. maintenancetool.exe, installer.dat, network.xml
-    // which saves around ~25MB
-    deleteFilesInFolder(sdkInstallPath)
-  }
-}
-/**
- * Remove one folder, if existing.
- *
- * @param {string} folder - The folder to remove.
- * @return {*}  {boolean}
- */
-function removeFolderIfExists(folder: string): boolean {
-  try {
-    if (fs.existsSync(folder)) {
-      fs.rmSync(folder, { recursive: true })
-      core.info(`Deleted folder: ${folder}`)
-      return true
-    } else {
-      core.info(`Folder ${folder} doesn't exist.`)
-    }
-  } catch (error) {
-    console.error(`Error removing folder: ${error}`)
-  }
-
-  return false
-}
-/**
- * Remove multiple folders, if existing.
- *
- * @param {string[]} folders - The folders to remove.
- */
-function removeFoldersIfExist(folders: string[]): void {
-  for (const folder of folders) {
-    removeFolderIfExists(folder)
-  }
-}
-
-function deleteFilesInFolder(folder: string): void {
-  for (const file of fs.readdirSync(folder)) {
-    const filePath = path.join(folder, file)
-    if (fs.statSync(filePath).isDirectory()) {
-      // biome-ignore lint/correctness/noUnnecessaryContinue: If subdirectory, skip it
-      continue
-    } else {
-      // If file, delete it
-      fs.unlinkSync(filePath)
-      core.info(`Deleted file: ${filePath}`)
-    }
-  }
+export function stripdownInstallationOfSdk(
+  sdkInstallPath: string,
+  profile = 'full',
+  include: string[] = [],
+  exclude: string[] = [],
+  target: platform.Target = platform.HOST_TARGET
+): stripdown.StripdownResult {
+  core.info(`✂ Reducing Vulkan SDK size before caching (profile: ${profile})`)
+  const result = stripdown.stripdown(sdkInstallPath, profile, include, exclude, target)
+  core.info(
+    `✂ Stripdown profile '${profile}' removed ${result.files} files, saved ${stripdown.formatBytes(result.bytes)}.`
+  )
+  return result
 }
 /**
  * Copy a folder.
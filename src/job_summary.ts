@@ -0,0 +1,157 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import type { CacheHit } from './cache_vulkan'
+import * as stripdown from './stripdown'
+import * as versions from './versions'
+
+/**
+ * Where the installed version came from:
+ * a pinned version, "latest", a version range or the local archive of the offline mode ("sdk_archive").
+ */
+export type VersionSource = 'pinned' | 'latest' | 'range' | 'archive'
+
+/**
+ * A phase of the installation and its wall-clock time.
+ *
+ * @export
+ * @interface Phase
+ */
+export interface Phase {
+  name: string
+  milliseconds: number
+}
+
+/**
+ * The install report, which is written to the job summary.
+ *
+ * @export
+ * @interface InstallReport
+ */
+export interface InstallReport {
+  version: string
+  versionSource: VersionSource
+  // empty, if nothing was downloaded
+  downloadUrl: string
+  // 0, if nothing was downloaded
+  downloadSize: number
+  cacheHit: CacheHit
+  installPath: string
+  components: string[]
+  phases: Phase[]
+  // the exported environment variables, including PATH additions, empty for the inactive versions
+  environment: Record<string, string>
+}
+
+/**
+ * Get the source of the installed version.
+ *
+ * @export
+ * @param {string} requestedVersion - The "vulkan_version" input, e.g. "latest", "1.3.x" or "1.3.250.1".
+ * @param {string} sdkArchive - The "sdk_archive" input.
+ * @return {*}  {VersionSource}
+ */
+export function getVersionSource(requestedVersion: string, sdkArchive: string): VersionSource {
+  if (sdkArchive) {
+    return 'archive'
+  }
+  if (requestedVersion === 'latest') {
+    return 'latest'
+  }
+  return versions.isRange(requestedVersion) ? 'range' : 'pinned'
+}
+
+/**
+ * Run a phase and record its wall-clock time, also when the phase fails.
+ *
+ * @export
+ * @template T
+ * @param {Phase[]} phases - The phases to add the measured phase to.
+ * @param {string} name - The name of the phase, e.g. "Download".
+ * @param {(() => T | Promise<T>)} fn - The phase.
+ * @return {*}  {Promise<T>} The result of the phase.
+ */
+export async function measure<T>(phases: Phase[], name: string, fn: () => T | Promise<T>): Promise<T> {
+  const start = Date.now()
+  try {
+    return await fn()
+  } finally {
+    phases.push({ name, milliseconds: Date.now() - start })
+  }
+}
+
+/**
+ * Format a duration in seconds, e.g. "12.3s".
+ *
+ * @export
+ * @param {number} milliseconds
+ * @return {*}  {string}
+ */
+export function formatDuration(milliseconds: number): string {
+  return `${(milliseconds / 1000).toFixed(1)}s`
+}
+
+/**
+ * Escape a value for a cell of the HTML table of the job summary.
+ *
+ * @param {string} value
+ * @return {*}  {string}
+ */
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Write the install report to the job summary of the workflow run.
+ *
+ * Matrix builds show one summary per job, which records the SDK used by the job.
+ * Failures are reported as warnings, e.g. if GITHUB_STEP_SUMMARY is not set.
+ *
+ * @export
+ * @param {InstallReport} report - The install report.
+ * @return {*}  {Promise<void>}
+ */
+export async function writeJobSummary(report: InstallReport): Promise<void> {
+  const total = report.phases.reduce((sum, phase) => sum + phase.milliseconds, 0)
+  const download = report.downloadUrl
+    ? `${report.downloadUrl} (${stripdown.formatBytes(report.downloadSize)})`
+    : 'nothing downloaded'
+
+  try {
+    core.summary
+      .addHeading(`Vulkan SDK ${escapeHtml(report.version)}`, 3)
+      .addTable([
+        [
+          { data: 'Install', header: true },
+          { data: '', header: true }
+        ],
+        ['Version', `${escapeHtml(report.version)} (${report.versionSource})`],
+        ['Download', escapeHtml(download)],
+        ['Cache', report.cacheHit],
+        ['Install path', escapeHtml(report.installPath)],
+        ['Components', escapeHtml(report.components.join(', ') || 'none')]
+      ])
+      .addTable([
+        [
+          { data: 'Phase', header: true },
+          { data: 'Time', header: true }
+        ],
+        ...report.phases.map(phase => [escapeHtml(phase.name), formatDuration(phase.milliseconds)]),
+        ['Total', formatDuration(total)]
+      ])
+    const environment = Object.entries(report.environment)
+    if (environment.length) {
+      core.summary.addDetails(
+        'Environment variables',
+        `<pre>${environment.map(([name, value]) => escapeHtml(`${name}=${value}`)).join('\n')}</pre>`
+      )
+    }
+    await core.summary.write()
+  } catch (error) {
+    core.summary.emptyBuffer()
+    core.warning(`Writing the job summary failed: ${(error as Error).message}`)
+  }
+}
@@ -3,104 +3,336 @@
  *  SPDX-License-Identifier: MIT
  *--------------------------------------------------------------------------------------------*/
 
-import * as cache from '@actions/cache'
 import * as core from '@actions/core'
+import * as fs from 'node:fs'
 import * as path from 'node:path'
+import * as cacheVulkan from './cache_vulkan'
+import * as checksum from './checksum'
+import * as cmake from './cmake'
+import * as components from './components'
 import * as downloader from './downloader'
 import * as input from './inputs'
 import * as installerVulkan from './installer_vulkan'
+import * as jobSummary from './job_summary'
+import * as manifest from './manifest'
 import * as platform from './platform'
+import * as setupEnv from './setup_env'
+import * as softwareDriver from './software_driver'
+import * as toolCache from './toolcache'
 import * as versionsVulkan from './versions_vulkan'
+import * as vulkaninfo from './vulkaninfo'
 
 /**
- * Get Cache Keys
+ * Get the download options from the inputs.
  *
- * Format will be "cache-OS-ARCH-vulkan-sdk-VERSION-HASH".
- * E.g. "cache-linux-x64-vulkan-sdk-1.3.250.1-hash".
+ * @param {input.Inputs} inputs - The inputs of the action.
+ * @return {*}  {downloader.DownloadOptions}
+ */
+function getDownloadOptions(inputs: input.Inputs): downloader.DownloadOptions {
+  return {
+    mirrors: inputs.mirrors,
+    sdkChecksum: inputs.sdkChecksum,
+    runtimeChecksum: inputs.runtimeChecksum,
+    checksumManifest: inputs.checksumManifest,
+    retries: inputs.downloadRetries,
+    timeout: inputs.downloadTimeout,
+    linuxDistribution: inputs.linuxDistribution,
+    target: inputs.target
+  }
+}
+
+/**
+ * The installed Vulkan SDK.
  *
- * @param {string} version - The Vulkan SDK version.
- * @param {string} path - The Vulkan SDK installation path.
- * @return { cachePrimaryKey: string; cacheRestoreKeys: string[]; }
+ * @interface VulkanSdk
+ */
+interface VulkanSdk {
+  // the path returned by the installer, e.g. "/home/runner/vulkan-sdk" or "C:\VulkanSDK\1.3.250.1"
+  sdkPath: string
+  // the versionized installation folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1"
+  installPath: string
+  cacheHit: cacheVulkan.CacheHit
+  // empty, if nothing was downloaded
+  downloadUrl: string
+  // the size of the downloaded SDK in bytes, 0 if nothing was downloaded
+  downloadSize: number
+  // empty, if the SDK was found in the tool cache
+  cacheKey: string
+}
+
+/**
+ * A version to install: the resolved version and the requested version, e.g. "latest" or "1.3.x".
+ *
+ * @interface RequestedVersion
+ */
+interface RequestedVersion {
+  version: string
+  requestedVersion: string
+}
+
+/**
+ * An installed version of the Vulkan SDK.
+ *
+ * @interface InstalledVersion
+ */
+interface InstalledVersion extends RequestedVersion {
+  vulkanSdk: VulkanSdk
+  // the path of the Vulkan SDK (VULKAN_SDK), e.g. "/home/runner/vulkan-sdk/1.3.250.1/x86_64"
+  installPath: string
+  optionalComponents: string[]
+  phases: jobSummary.Phase[]
+}
+
+/**
+ * Resolve the requested versions. Versions resolving to an already requested version are skipped.
+ *
+ * In offline mode, the version of the local archive is inferred from the archive, there is nothing to resolve.
+ *
+ * @param {input.Inputs} inputs - The inputs of the action.
+ * @return {*}  {Promise<RequestedVersion[]>} The versions to install, the first one is the active version.
  */
-export function getCacheKeys(version: string, path: string): { cachePrimaryKey: string; cacheRestoreKeys: string[] } {
-  // Note: getPlatform() is used to get "windows", instead of OS_PLATFORM value "win32"
-  const cachePrimaryKey = `cache-${platform.getPlatform()}-${platform.OS_ARCH}-vulkan-sdk-${version}`
-  const cacheRestoreKey1 = `cache-${platform.getPlatform()}-${platform.OS_ARCH}-vulkan-sdk-`
-  const cacheRestoreKey2 = `cache-${platform.getPlatform()}-${platform.OS_ARCH}-`
-  return { cachePrimaryKey, cacheRestoreKeys: [cacheRestoreKey1, cacheRestoreKey2] }
+async function resolveVersions(inputs: input.Inputs): Promise<RequestedVersion[]> {
+  if (inputs.sdkArchive) {
+    return [{ version: versionsVulkan.getVersionFromSdkArchive(inputs.sdkArchive), requestedVersion: inputs.version }]
+  }
+  const resolved: RequestedVersion[] = []
+  for (const requestedVersion of inputs.versions) {
+    const version = await versionsVulkan.resolveVersion(requestedVersion, inputs.target)
+    if (resolved.some(item => item.version === version)) {
+      core.warning(
+        `"vulkan_version: ${requestedVersion}" resolves to ${version}, which is already requested. Skipping.`
+      )
+      continue
+    }
+    resolved.push({ version, requestedVersion })
+  }
+  return resolved
 }
 
 /**
  * Retrieves and installs the Vulkan SDK.
  *
+ * The SDK is restored from the tool cache or the cache, installed from a local archive ("sdk_archive") or downloaded.
+ *
  * @param {string} version - The version of the Vulkan SDK to install.
- * @param {string} destination - The directory where the Vulkan SDK will be installed.
- * @param {string[]} optional_components - An array of optional components to install alongside the SDK.
- * @param {boolean} use_cache - Whether to use a cached SDK, if available. And store SDK to cache, if not available.
- * @param {boolean} stripdown - Whether to reduce the size of the installed SDK for caching.
- * @param {boolean} install_runtime - Whether to install the Vulkan runtime.
- * @return {*}  {Promise<string>} A Promise that resolves to the path where the Vulkan SDK is installed.
+ * @param {input.Inputs} inputs - The inputs of the action, e.g. destination, optional components, cache and stripdown flags.
+ * @param {jobSummary.Phase[]} phases - The phases of the installation, for the job summary.
+ * @return {*}  {Promise<VulkanSdk>} A Promise that resolves to the installed Vulkan SDK.
  */
-async function getVulkanSdk(
-  version: string,
-  destination: string,
-  optionalComponents: string[],
-  useCache: boolean,
-  stripdown: boolean,
-  installRuntime: boolean
-): Promise<string> {
-  let installPath: string
+async function getVulkanSdk(version: string, inputs: input.Inputs, phases: jobSummary.Phase[]): Promise<VulkanSdk> {
+  const { destination, optionalComponents, useCache, stripdown, installRuntime, target } = inputs
+  const downloadOptions = getDownloadOptions(inputs)
+  // the tool cache is keyed by version and architecture only, so it's reserved for the SDK of the host
+  const useToolCache = inputs.useToolCache && platform.isHostTarget(target)
 
-  const { cachePrimaryKey, cacheRestoreKeys } = await getCacheKeys(version, destination)
+  const versionizedDestinationPath = path.normalize(`${destination}/${version}`)
+
+  const cacheKeyOptions: cacheVulkan.CacheKeyOptions = {
+    destination,
+    optionalComponents,
+    installRuntime,
+    stripdown,
+    stripdownProfile: inputs.stripdownProfile,
+    stripdownInclude: inputs.stripdownInclude,
+    stripdownExclude: inputs.stripdownExclude
+  }
+  const { cachePrimaryKey, cacheRestoreKeys } = cacheVulkan.getCacheKeys(version, cacheKeyOptions, target)
+  // the tool cache entry is keyed by the same options, because the SDK is pruned and stripped down before registering
+  const optionsHash = cacheVulkan.getCacheKeyHash(cacheKeyOptions)
+
+  // restore from the runner's tool cache (self-hosted runners), no network I/O
+  if (useToolCache) {
+    const toolCachePath = toolCache.findVulkanSdk(version, optionsHash)
+    if (toolCachePath) {
+      core.info(`🧰 [ToolCache] Found Vulkan SDK ${version} in tool cache: '${toolCachePath}'.`)
+      return {
+        sdkPath: toolCachePath,
+        installPath: toolCachePath,
+        cacheHit: 'tool-cache',
+        downloadUrl: '',
+        downloadSize: 0,
+        cacheKey: cachePrimaryKey
+      }
+    }
+    core.info(`🧰 [ToolCache] Vulkan SDK ${version} not found in tool cache.`)
+  }
+
+  core.info(`🎯 [Cache] Cache key: '${cachePrimaryKey}'.`)
 
   // restore from cache
   if (useCache) {
-    let cacheHit = undefined
-    if (platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) {
-      const versionizedDestinationPath = path.normalize(`${destination}/${version}`)
-      cacheHit = await cache.restoreCache([versionizedDestinationPath], cachePrimaryKey, cacheRestoreKeys)
-    } else {
-      cacheHit = await cache.restoreCache([destination], cachePrimaryKey, cacheRestoreKeys)
-    }
-    if (cacheHit === undefined) {
-      core.info(`🎯 [Cache] Cache for 'Vulkan SDK' not found.`)
-    } else {
-      core.info(`🎯 [Cache] Restored Vulkan SDK in path: '${destination}'. Cache Restore ID: '${cacheHit}'.`)
-      return destination // Exit early with the cached destination, e.g. C:\VulkanSDK
+    const restoredKey = await jobSummary.measure(phases, 'Cache restore', () =>
+      cacheVulkan.restoreVulkanSdk(version, destination, cachePrimaryKey, cacheRestoreKeys, target)
+    )
+    cacheVulkan.saveCacheState(cachePrimaryKey, cacheVulkan.getCachePath(version, destination), restoredKey)
+    if (restoredKey !== undefined) {
+      const cacheHit = cacheVulkan.getCacheHit(cachePrimaryKey, restoredKey)
+      if (useToolCache) {
+        const toolCachePath = await toolCache.cacheVulkanSdk(versionizedDestinationPath, version, optionsHash)
+        return {
+          sdkPath: toolCachePath,
+          installPath: toolCachePath,
+          cacheHit,
+          downloadUrl: '',
+          downloadSize: 0,
+          cacheKey: cachePrimaryKey
+        }
+      }
+      // Exit early with the cached destination, e.g. C:\VulkanSDK
+      return {
+        sdkPath: destination,
+        installPath: versionizedDestinationPath,
+        cacheHit,
+        downloadUrl: '',
+        downloadSize: 0,
+        cacheKey: cachePrimaryKey
+      }
     }
   }
 
   /*
     Download and install RT and SDK with the following conditions:
      - if (use_cache = false)                    means cache is not used
-     - if (use_cache = true && cacheHit = false) means cache is used, but not found
+     - if (use_cache = true && cacheHit = false) means cache is used, but not found or not usable
   */
 
-  // Download and install SDK
-  const vulkanSdkPath = await downloader.downloadVulkanSdk(version)
-  installPath = await installerVulkan.installVulkanSdk(vulkanSdkPath, destination, version, optionalComponents)
+  // Download and install SDK, or install SDK from the local archive (offline mode)
+  let vulkanSdkPath = inputs.sdkArchive
+  let downloadUrl = ''
+  let downloadSize = 0
+  if (vulkanSdkPath) {
+    core.info(`📁 Using local Vulkan SDK archive: ${vulkanSdkPath}`)
+    if (downloadOptions.sdkChecksum) {
+      await checksum.verifySha256(vulkanSdkPath, { sha256: downloadOptions.sdkChecksum, source: 'input' })
+    }
+  } else {
+    const download = await jobSummary.measure(phases, 'Download', () =>
+      downloader.downloadVulkanSdk(version, downloadOptions)
+    )
+    vulkanSdkPath = download.file
+    downloadUrl = download.url
+    downloadSize = fs.statSync(download.file).size
+  }
+  const sdkArchive = vulkanSdkPath
+  const installPath = await jobSummary.measure(phases, 'Install', () =>
+    installerVulkan.installVulkanSdk(sdkArchive, destination, version, optionalComponents, target)
+  )
 
   // Download and install Runtime after the SDK. This allows caching both.
-  if ((platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) && installRuntime) {
-    const vulkanRuntimePath = await downloader.downloadVulkanRuntime(version)
-    await installerVulkan.installVulkanRuntime(vulkanRuntimePath, destination, version)
+  if (target.os === 'windows' && installRuntime && inputs.sdkArchive) {
+    core.warning(`The Vulkan Runtime is not installed, because the SDK is installed from a local 'sdk_archive'.`)
+  } else if (target.os === 'windows' && installRuntime) {
+    await jobSummary.measure(phases, 'Runtime', async () => {
+      const vulkanRuntime = await downloader.downloadVulkanRuntime(version, downloadOptions)
+      await installerVulkan.installVulkanRuntime(vulkanRuntime.file, destination, version)
+    })
   }
 
-  // cache install folder
-  if (useCache) {
-    if (stripdown) {
-      installerVulkan.stripdownInstallationOfSdk(installPath)
-    }
-    try {
-      const cacheId = await cache.saveCache([installPath], cachePrimaryKey)
-      if (cacheId !== -1) {
-        core.info(`🎯 [Cache] Saved Vulkan SDK in path: '${installPath}'. Cache Save ID: '${cacheId}'.`)
-      }
-    } catch (error) {
-      core.warning((error as Error).message)
+  // reduce the size of the install folder, which is saved to cache in the post step
+  if (useCache && stripdown) {
+    await jobSummary.measure(phases, 'Stripdown', () =>
+      installerVulkan.stripdownInstallationOfSdk(
+        versionizedDestinationPath,
+        inputs.stripdownProfile,
+        inputs.stripdownInclude,
+        inputs.stripdownExclude,
+        target
+      )
+    )
+  }
+
+  // record every installed file, to detect partially restored caches
+  await jobSummary.measure(phases, 'Manifest', () => manifest.writeManifest(versionizedDestinationPath, version))
+
+  // register in the runner's tool cache, so that the next job on this machine can reuse the SDK
+  if (useToolCache) {
+    const toolCachePath = await toolCache.cacheVulkanSdk(versionizedDestinationPath, version, optionsHash)
+    return {
+      sdkPath: toolCachePath,
+      installPath: toolCachePath,
+      cacheHit: 'none',
+      downloadUrl,
+      downloadSize,
+      cacheKey: cachePrimaryKey
     }
   }
-  return installPath
+  return {
+    sdkPath: installPath,
+    installPath: versionizedDestinationPath,
+    cacheHit: 'none',
+    downloadUrl,
+    downloadSize,
+    cacheKey: cachePrimaryKey
+  }
+}
+
+/**
+ * Verify an existing installation against its manifest ("verify_only").
+ *
+ * @param {string} installPath - The versionized installation folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @return {*}  {Promise<void>}
+ * @throws {Error} If the installation has no manifest or files are missing or changed.
+ */
+async function verifyExistingInstallation(installPath: string): Promise<void> {
+  const verification = await manifest.verifyInstallation(installPath)
+  if (verification === undefined) {
+    throw new Error(`The installation in '${installPath}' has no manifest '${manifest.MANIFEST_FILENAME}'.`)
+  }
+  core.setOutput('manifest', path.join(installPath, manifest.MANIFEST_FILENAME))
+  if (!manifest.isValid(verification)) {
+    throw new Error(`The installation in '${installPath}' is incomplete: ${manifest.describeProblems(verification)}.`)
+  }
+}
+
+/**
+ * Set the outputs of the action.
+ *
+ * @param {string} version - The installed version.
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK), e.g. "/home/runner/vulkan-sdk/1.3.250.1/x86_64".
+ * @param {VulkanSdk} vulkanSdk - The installed Vulkan SDK.
+ * @param {string} runtimePath - The path of the Vulkan Runtime or an empty string, if not installed.
+ * @param {string[]} optionalComponents - The installed optional components.
+ */
+function setOutputs(
+  version: string,
+  sdkPath: string,
+  vulkanSdk: VulkanSdk,
+  runtimePath: string,
+  optionalComponents: string[]
+): void {
+  core.setOutput('VULKAN_VERSION', version)
+  core.setOutput('VULKAN_SDK', sdkPath)
+  core.setOutput('cache-key', vulkanSdk.cacheKey)
+  core.setOutput('cache-hit', vulkanSdk.cacheHit)
+  core.setOutput('install-path', vulkanSdk.installPath)
+  core.setOutput('bin-path', path.normalize(`${sdkPath}/bin`))
+  core.setOutput('download-url', vulkanSdk.downloadUrl)
+  core.setOutput('runtime-path', runtimePath)
+  core.setOutput('installed-components', optionalComponents.join(','))
+  const manifestFile = path.join(vulkanSdk.installPath, manifest.MANIFEST_FILENAME)
+  core.setOutput('manifest', fs.existsSync(manifestFile) ? manifestFile : '')
+}
+
+/**
+ * Set the outputs of all installed versions, e.g. "VULKAN_SDK_1_3_250_1" and "installed-versions".
+ *
+ * @param {InstalledVersion[]} installedVersions - The installed versions.
+ */
+function setVersionOutputs(installedVersions: InstalledVersion[]): void {
+  for (const { version, installPath } of installedVersions) {
+    core.setOutput(getVersionOutputName(version), installPath)
+  }
+  core.setOutput('installed-versions', installedVersions.map(item => item.version).join(','))
+}
+
+/**
+ * Get the name of the output with the path of a version, e.g. "VULKAN_SDK_1_3_250_1" for "1.3.250.1".
+ *
+ * @param {string} version - The Vulkan SDK version.
+ * @return {*}  {string}
+ */
+function getVersionOutputName(version: string): string {
+  return `VULKAN_SDK_${version.replace(/\W/g, '_')}`
 }
 
 /**
@@ -120,78 +352,192 @@ function errorHandler(error: Error): void {
  * @return {*}  {Promise<void>}
  */
 async function run(): Promise<void> {
+  // mark the main step as done, so that the next invocation of this entry point runs the post step
+  core.saveState('isPost', 'true')
+
   try {
-    const inputs: input.Inputs = await input.getInputs()
+    const phases: jobSummary.Phase[] = []
+    const inputs: input.Inputs = await jobSummary.measure(phases, 'Inputs', () => input.getInputs())
 
-    const version = await versionsVulkan.resolveVersion(inputs.version)
+    const requestedVersions = await jobSummary.measure(phases, 'Version resolution', () => resolveVersions(inputs))
 
-    const sdkPath = await getVulkanSdk(
-      version,
-      inputs.destination,
-      inputs.optionalComponents,
-      inputs.useCache,
-      inputs.stripdown,
-      inputs.installRuntime
-    )
+    // re-check existing installations, e.g. restored from cache, without installing anything
+    if (inputs.verifyOnly) {
+      for (const { version } of requestedVersions) {
+        await verifyExistingInstallation(path.normalize(`${inputs.destination}/${version}`))
+      }
+      core.info(`✅ Done.`)
+      return
+    }
 
-    const installPath = installerVulkan.getVulkanSdkPath(sdkPath, version)
-
-    if (installerVulkan.verifyInstallationOfSdk(installPath)) {
-      // Setup Paths to the Vulkan SDK
-      //
-      // https://vulkan.lunarg.com/doc/sdk/1.3.261.1/linux/getting_started.html#set-up-the-runtime-environment
-      //
-      // According to the docs one would "source ~/vulkan/1.x.yy.z/setup-env.sh".
-      // But here we setup our paths by setting these environment variables ourself.
-      // We set PATH, VULKAN_SDK, VK_LAYER_PATH, LD_LIBRARY_PATH and additionally VULKAN_VERSION.
-
-      // export PATH=$VULKAN_SDK/bin:$PATH
-      const binFolder = path.normalize(`${installPath}/bin`)
-      core.addPath(binFolder)
-      core.info(`✔️ [PATH] Added path to Vulkan SDK to environment variable PATH.`)
-
-      // export VULKAN_SDK=~/vulkan/1.x.yy.z/x86_64
-      core.exportVariable('VULKAN_SDK', installPath)
-      core.info(`✔️ [ENV] Set env variable VULKAN_SDK -> "${installPath}".`)
-
-      core.exportVariable('VULKAN_VERSION', version)
-      core.info(`✔️ [ENV] Set env variable VULKAN_VERSION -> "${version}".`)
-
-      if (platform.IS_LINUX || platform.IS_LINUX_ARM || platform.IS_MAC) {
-        // export VK_LAYER_PATH=$VULKAN_SDK/etc/vulkan/explicit_layer.d
-        const vkLayerPath = `${installPath}/etc/vulkan/explicit_layer.d`
-        core.exportVariable('VK_LAYER_PATH', vkLayerPath)
-        core.info(`✔️ [ENV] Set env variable VK_LAYER_PATH -> "${vkLayerPath}".`)
-
-        // export LD_LIBRARY_PATH=$VULKAN_SDK/lib${LD_LIBRARY_PATH:+:$LD_LIBRARY_PATH}
-        const ldLibraryPath = process.env.LD_LIBRARY_PATH || ''
-        const vkLdLibraryPath = `${installPath}/lib:${ldLibraryPath}`
-        if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
-          core.exportVariable('LD_LIBRARY_PATH', vkLdLibraryPath)
-          core.info(`✔️ [ENV] Set env variable LD_LIBRARY_PATH -> "${vkLdLibraryPath}".`)
+    // the SDK of another platform is only fetched: it can't be executed on this host
+    const { target } = inputs
+    const isHostTarget = platform.isHostTarget(target)
+
+    // install the versions side-by-side into their versionized folders
+    const installedVersions: InstalledVersion[] = []
+    for (const { version, requestedVersion } of requestedVersions) {
+      const versionPhases = installedVersions.length === 0 ? phases : []
+      // the available optional components depend on the version and platform,
+      // the extracted Windows installer of another host contains all components
+      const optionalComponents =
+        target.os === 'windows' && !isHostTarget
+          ? []
+          : components.resolveOptionalComponents(
+              inputs.optionalComponents,
+              version,
+              inputs.optionalComponentsStrict,
+              platform.getTargetPlatform(target)
+            )
+      const vulkanSdk = await getVulkanSdk(version, { ...inputs, optionalComponents }, versionPhases)
+      const installPath = installerVulkan.getVulkanSdkPath(vulkanSdk.sdkPath, version, target)
+      if (installedVersions.length > 0 && !installerVulkan.verifyInstallationOfSdk(installPath, target)) {
+        core.warning(`Could not find Vulkan SDK in ${installPath}`)
+      }
+      installedVersions.push({
+        version,
+        requestedVersion,
+        vulkanSdk,
+        installPath,
+        optionalComponents,
+        phases: versionPhases
+      })
+    }
+
+    // the first version is the active one: VULKAN_SDK, PATH and the other environment variables point to it
+    const { version, vulkanSdk, installPath, optionalComponents } = installedVersions[0]
+    if (installedVersions.length > 1) {
+      core.info(
+        `✔️ Active Vulkan SDK: ${version}. Installed versions: ${installedVersions.map(item => item.version).join(', ')}`
+      )
+    }
+
+    let environment: setupEnv.EnvironmentSetup = { variables: {}, paths: [] }
+    if (installerVulkan.verifyInstallationOfSdk(installPath, target)) {
+      if (isHostTarget) {
+        // Setup Paths to the Vulkan SDK
+        //
+        // https://vulkan.lunarg.com/doc/sdk/1.3.261.1/linux/getting_started.html#set-up-the-runtime-environment
+        //
+        // According to the docs one would "source ~/vulkan/1.x.yy.z/setup-env.sh".
+        // First, the default environment setup is used. It is the fallback on Windows or if the script is missing.
+        // Then, if the SDK ships setup-env.sh, its exports are parsed and replace the default setup,
+        // so that variables added by newer SDKs are picked up, e.g. PKG_CONFIG_PATH and VK_ADD_LAYER_PATH.
+        // In both cases VULKAN_VERSION is set afterwards.
+        environment = setupEnv.getDefaultEnvironmentSetup(installPath)
+        const setupEnvScript = setupEnv.findSetupEnv(installPath)
+        const setup = setupEnvScript
+          ? setupEnv.parseSetupEnv(fs.readFileSync(setupEnvScript, 'utf8'), path.dirname(setupEnvScript))
+          : undefined
+        if (setup && 'VULKAN_SDK' in setup.variables) {
+          core.info(`✔️ [ENV] Using the environment setup of '${setupEnvScript}'.`)
+          environment = setup
         }
-        if (platform.IS_MAC) {
-          core.exportVariable('DYLD_LIBRARY_PATH', vkLdLibraryPath)
-          core.info(`✔️ [ENV] Set env variable DYLD_LIBRARY_PATH -> "${vkLdLibraryPath}".`)
+      } else {
+        // headers and libraries for cross-compiling, the executables of the SDK are not added to PATH
+        environment.variables.VULKAN_SDK = installPath
+      }
+      environment.variables.VULKAN_VERSION = version
+      // a software driver (ICD) for runners without GPU
+      if (inputs.softwareDriver && isHostTarget) {
+        const driver = await jobSummary.measure(phases, 'Software driver', () =>
+          softwareDriver.installSoftwareDriver(
+            inputs.softwareDriver,
+            inputs.softwareDriverArchive,
+            { retries: inputs.downloadRetries, timeout: inputs.downloadTimeout * 1000 },
+            version
+          )
+        )
+        environment.variables.VK_DRIVER_FILES = driver.icdFile
+        // the predecessor of VK_DRIVER_FILES, for loaders older than 1.3.207
+        environment.variables.VK_ICD_FILENAMES = driver.icdFile
+      }
+      // find_package(Vulkan) finds the SDK without further hints
+      environment.variables.CMAKE_PREFIX_PATH = cmake.getCmakePrefixPath(installPath)
+      setupEnv.applyEnvironmentSetup(environment)
+
+      // write the environment as scripts for later shells and containers, which don't see GITHUB_ENV.
+      // The generated files are not written into the installation folder, which is cached or shared by the tool cache.
+      const generatedFilesFolder = path.join(platform.RUNNER_TEMP_DIR, 'vulkan-sdk', version)
+      const scripts = setupEnv.writeEnvironmentScripts(environment, generatedFilesFolder)
+      core.setOutput('env-script-sh', scripts.sh)
+      core.setOutput('env-script-ps1', scripts.ps1)
+      core.setOutput('env-file', scripts.dotenv)
+
+      // write the CMake file, which can be passed to -DCMAKE_PROJECT_INCLUDE
+      core.setOutput('cmake-file', cmake.writeCmakeFile(installPath, version, generatedFilesFolder))
+
+      // run vulkaninfo with the new environment, e.g. with the software driver, and fail early on missing extensions
+      if (isHostTarget && (inputs.vulkanInfo || inputs.requiredExtensions.length)) {
+        const report = await jobSummary.measure(phases, 'vulkaninfo', () =>
+          vulkaninfo.runVulkanInfo(installerVulkan.getVulkanInfoPath(installPath, target))
+        )
+        if (report) {
+          vulkaninfo.setVulkanInfoOutputs(report)
         }
+        vulkaninfo.checkRequiredExtensions(report, inputs.requiredExtensions)
       }
     } else {
       core.warning(`Could not find Vulkan SDK in ${installPath}`)
     }
 
-    if ((platform.IS_WINDOWS || platform.IS_WINDOWS_ARM) && inputs.installRuntime) {
-      const runtimePath = `${installPath}\\runtime`
-      if (installerVulkan.verifyInstallationOfRuntime(installPath)) {
+    let runtimePath = ''
+    if (target.os === 'windows' && inputs.installRuntime) {
+      runtimePath = path.join(installPath, 'runtime')
+      if (installerVulkan.verifyInstallationOfRuntime(installPath, target)) {
         core.info(`✔️ [INFO] Path to Vulkan Runtime: ${runtimePath}`)
       } else {
         core.warning(`Could not find Vulkan Runtime in ${runtimePath}`)
+        runtimePath = ''
       }
     }
 
+    setOutputs(version, installPath, vulkanSdk, runtimePath, optionalComponents)
+    setVersionOutputs(installedVersions)
+
+    const exported = { ...environment.variables }
+    if (environment.paths.length) {
+      exported.PATH = `${environment.paths.join(path.delimiter)}${path.delimiter}...`
+    }
+    for (const installed of installedVersions) {
+      await jobSummary.writeJobSummary({
+        version: installed.version,
+        versionSource: jobSummary.getVersionSource(installed.requestedVersion, inputs.sdkArchive),
+        downloadUrl: installed.vulkanSdk.downloadUrl,
+        downloadSize: installed.vulkanSdk.downloadSize,
+        cacheHit: installed.vulkanSdk.cacheHit,
+        installPath: installed.vulkanSdk.installPath,
+        components: installed.optionalComponents,
+        phases: installed.phases,
+        // only the active version exports environment variables
+        environment: installed === installedVersions[0] ? exported : {}
+      })
+    }
+
     core.info(`✅ Done.`)
   } catch (error) {
     errorHandler(error as Error)
   }
 }
 
-run()
+/**
+ * This is the post function, which runs at the end of the job.
+ *
+ * It saves the Vulkan SDK to cache. Errors are reported as warnings and don't fail the job.
+ *
+ * @return {*}  {Promise<void>}
+ */
+async function post(): Promise<void> {
+  try {
+    await cacheVulkan.saveVulkanSdk()
+  } catch (error) {
+    core.warning((error as Error).message)
+  }
+}
+
+// The same entry point is used for the main and the post step (see "runs.post" in action.yml).
+if (core.getState('isPost') === 'true') {
+  post()
+} else {
+  run()
+}
@@ -0,0 +1,220 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as checksum from './checksum'
+
+/**
+ * The filename of the manifest, written into the versionized SDK folder.
+ */
+export const MANIFEST_FILENAME = 'vulkan-sdk-manifest.json'
+
+/**
+ * An installed file. Symlinks are recorded with their target instead of size and hash.
+ *
+ * @export
+ * @interface ManifestEntry
+ */
+export interface ManifestEntry {
+  size: number
+  sha256: string
+  link?: string
+}
+
+/**
+ * The manifest of an installation: every installed file with its size and hash.
+ *
+ * @export
+ * @interface Manifest
+ */
+export interface Manifest {
+  version: string
+  // the installed files, keyed by the path relative to the versionized SDK folder, using "/" as separator
+  files: Record<string, ManifestEntry>
+}
+
+/**
+ * The result of the verification of an installation against its manifest.
+ *
+ * @export
+ * @interface ManifestVerification
+ */
+export interface ManifestVerification {
+  missing: string[]
+  changed: string[]
+}
+
+/**
+ * Create the manifest of an installation.
+ *
+ * @export
+ * @param {string} folder - The versionized SDK folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @param {string} version - The version of the Vulkan SDK.
+ * @return {*}  {Promise<Manifest>}
+ */
+export async function createManifest(folder: string, version: string): Promise<Manifest> {
+  const manifest: Manifest = { version, files: {} }
+  for (const relativePath of listFiles(folder, '')) {
+    manifest.files[relativePath] = await getEntry(path.join(folder, relativePath))
+  }
+  return manifest
+}
+
+/**
+ * Create the manifest of an installation and write it into the folder.
+ *
+ * @export
+ * @param {string} folder - The versionized SDK folder.
+ * @param {string} version - The version of the Vulkan SDK.
+ * @return {*}  {Promise<string>} The path of the manifest.
+ */
+export async function writeManifest(folder: string, version: string): Promise<string> {
+  const manifest = await createManifest(folder, version)
+  const file = path.join(folder, MANIFEST_FILENAME)
+  fs.writeFileSync(file, `${JSON.stringify(manifest, null, 2)}\n`)
+  core.info(`✔️ [Manifest] Wrote manifest of ${Object.keys(manifest.files).length} files: ${file}`)
+  return file
+}
+
+/**
+ * Read the manifest of an installation.
+ *
+ * @export
+ * @param {string} folder - The versionized SDK folder.
+ * @return {*}  {(Manifest | undefined)} The manifest or undefined, if the folder has no manifest.
+ */
+export function readManifest(folder: string): Manifest | undefined {
+  const file = path.join(folder, MANIFEST_FILENAME)
+  if (!fs.existsSync(file)) {
+    return undefined
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as Manifest
+}
+
+/**
+ * Verify an installation against its manifest.
+ *
+ * Files, which are not listed in the manifest, are ignored,
+ * e.g. the environment scripts and the CMake file written after the installation.
+ *
+ * @export
+ * @param {string} folder - The versionized SDK folder.
+ * @param {Manifest} manifest - The manifest.
+ * @return {*}  {Promise<ManifestVerification>} The missing and changed files.
+ */
+export async function verifyManifest(folder: string, manifest: Manifest): Promise<ManifestVerification> {
+  const result: ManifestVerification = { missing: [], changed: [] }
+  for (const [relativePath, expected] of Object.entries(manifest.files)) {
+    const file = path.join(folder, relativePath)
+    let stat: fs.Stats
+    try {
+      stat = fs.lstatSync(file)
+    } catch {
+      result.missing.push(relativePath)
+      continue
+    }
+    if (expected.link !== undefined) {
+      if (!stat.isSymbolicLink() || fs.readlinkSync(file) !== expected.link) {
+        result.changed.push(relativePath)
+      }
+    } else if (stat.isSymbolicLink() || stat.size !== expected.size) {
+      result.changed.push(relativePath)
+    } else if ((await checksum.computeSha256(file)) !== expected.sha256) {
+      result.changed.push(relativePath)
+    }
+  }
+  return result
+}
+
+/**
+ * Verify an installation against the manifest in its folder.
+ *
+ * @export
+ * @param {string} folder - The versionized SDK folder.
+ * @return {*}  {(Promise<ManifestVerification | undefined>)} The missing and changed files
+ *   or undefined, if the folder has no manifest (e.g. a cache saved by an older version of the action).
+ */
+export async function verifyInstallation(folder: string): Promise<ManifestVerification | undefined> {
+  const manifest = readManifest(folder)
+  if (manifest === undefined) {
+    return undefined
+  }
+  const result = await verifyManifest(folder, manifest)
+  if (isValid(result)) {
+    core.info(`✔️ [Manifest] Verified ${Object.keys(manifest.files).length} files in '${folder}'.`)
+  }
+  return result
+}
+
+/**
+ * Check, if the verification found no missing or changed files.
+ *
+ * @export
+ * @param {ManifestVerification} result - The result of the verification.
+ * @return {*}  {boolean}
+ */
+export function isValid(result: ManifestVerification): boolean {
+  return result.missing.length === 0 && result.changed.length === 0
+}
+
+/**
+ * Describe the problems found by the verification, listing the first files.
+ *
+ * @export
+ * @param {ManifestVerification} result - The result of the verification.
+ * @param {number} [limit=10] - The maximum number of listed files per problem.
+ * @return {*}  {string} e.g. "2 files missing (bin/glslc, lib/libvulkan.so), 1 file changed (include/vulkan/vulkan.h)".
+ */
+export function describeProblems(result: ManifestVerification, limit = 10): string {
+  const describe = (files: string[], problem: string): string => {
+    const listed = files.slice(0, limit).join(', ')
+    const more = files.length > limit ? `, and ${files.length - limit} more` : ''
+    return `${files.length} ${files.length === 1 ? 'file' : 'files'} ${problem} (${listed}${more})`
+  }
+  const problems: string[] = []
+  if (result.missing.length) {
+    problems.push(describe(result.missing, 'missing'))
+  }
+  if (result.changed.length) {
+    problems.push(describe(result.changed, 'changed'))
+  }
+  return problems.join(', ')
+}
+
+/**
+ * Get the manifest entry of a file.
+ *
+ * @param {string} file - The file.
+ * @return {*}  {Promise<ManifestEntry>}
+ */
+async function getEntry(file: string): Promise<ManifestEntry> {
+  const stat = fs.lstatSync(file)
+  if (stat.isSymbolicLink()) {
+    return { size: 0, sha256: '', link: fs.readlinkSync(file) }
+  }
+  return { size: stat.size, sha256: await checksum.computeSha256(file) }
+}
+
+/**
+ * List the files of a folder recursively, except the manifest. Symlinks are not followed.
+ *
+ * @param {string} folder - The folder.
+ * @param {string} relativeFolder - The path of the folder relative to the versionized SDK folder.
+ * @return {*}  {string[]} The paths relative to the versionized SDK folder, using "/" as separator.
+ */
+function listFiles(folder: string, relativeFolder: string): string[] {
+  const files: string[] = []
+  for (const entry of fs.readdirSync(path.join(folder, relativeFolder), { withFileTypes: true })) {
+    const relativePath = relativeFolder ? `${relativeFolder}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      files.push(...listFiles(folder, relativePath))
+    } else if (relativePath !== MANIFEST_FILENAME) {
+      files.push(relativePath)
+    }
+  }
+  return files.sort()
+}
@@ -20,6 +20,9 @@ export const IS_LINUX_ARM: boolean = IS_LINUX && OS_ARCH === 'arm64'
 
 export const TEMP_DIR: string = os.tmpdir()
 
+// the temp folder of the job, it is emptied after each job (RUNNER_TEMP)
+export const RUNNER_TEMP_DIR: string = process.env.RUNNER_TEMP || TEMP_DIR
+
 /**
  * Return a platform name, which can be used as part of the URLs.
  *
@@ -42,21 +45,120 @@ export function getPlatform(): string {
 }
 
 /**
- * Determines the Linux distribution version.
- * This function helps to differentiate between Ubuntu "20.04" and "24.04".
+ * The platform and architecture of the Vulkan SDK to fetch.
+ * By default, this is the host. A different target fetches the SDK of another platform, e.g. for cross-compiling.
+ *
+ * @export
+ * @interface Target
+ */
+export interface Target {
+  os: 'windows' | 'linux' | 'mac'
+  arch: 'x64' | 'arm64'
+}
+
+/**
+ * The target of the host, the runner this action runs on.
+ */
+export const HOST_TARGET: Target = {
+  os: IS_WINDOWS ? 'windows' : IS_MAC ? 'mac' : 'linux',
+  arch: OS_ARCH === 'arm64' ? 'arm64' : 'x64'
+}
+
+/**
+ * Return the platform name of a target, which can be used as part of the URLs.
+ *
+ * @export
+ * @param {Target} target - The target.
+ * @return {*}  {string} The platform name (windows, warm, linux, mac).
+ */
+export function getTargetPlatform(target: Target): string {
+  if (target.os === 'windows') {
+    // Windows ARM64 => warm
+    return target.arch === 'arm64' ? 'warm' : 'windows'
+  }
+  return target.os
+}
+
+/**
+ * Check, if the target is the host. Otherwise, the SDK can't be executed on this runner.
+ *
+ * @export
+ * @param {Target} target - The target.
+ * @return {*}  {boolean}
+ */
+export function isHostTarget(target: Target): boolean {
+  return target.os === HOST_TARGET.os && target.arch === HOST_TARGET.arch
+}
+
+/**
+ * The identification of the Linux distribution from "/etc/os-release".
+ *
+ * @see https://www.freedesktop.org/software/systemd/man/latest/os-release.html
+ * @export
+ * @interface OsRelease
+ */
+export interface OsRelease {
+  // e.g. "ubuntu", "debian", "linuxmint", "fedora"
+  id: string
+  // the IDs of the distributions this one is derived from, e.g. ["ubuntu", "debian"] for Linux Mint
+  idLike: string[]
+  // e.g. "24.04" or "12", empty for rolling releases
+  versionId: string
+  // e.g. "noble" or "bookworm"
+  versionCodename: string
+  // the codename of the Ubuntu base of derivatives, e.g. "jammy" for Linux Mint 21
+  ubuntuCodename: string
+  // e.g. "Ubuntu 24.04.1 LTS"
+  prettyName: string
+}
+
+/**
+ * Parse the content of "/etc/os-release".
+ *
+ * The lines are shell-compatible variable assignments. Values might be unquoted, single- or double-quoted.
+ *
+ * @export
+ * @param {string} content - The content of "/etc/os-release".
+ * @return {*}  {OsRelease}
+ */
+export function parseOsRelease(content: string): OsRelease {
+  const values: Record<string, string> = {}
+  for (const rawLine of content.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^([A-Z][A-Z0-9_]*)=(.*)$/)
+    if (!match) {
+      continue
+    }
+    let value = match[2].trim()
+    if (/^".*"$/.test(value)) {
+      value = value.slice(1, -1).replace(/\\(["\\$`])/g, '$1')
+    } else if (/^'.*'$/.test(value)) {
+      value = value.slice(1, -1)
+    }
+    values[match[1]] = value
+  }
+  return {
+    id: (values.ID || 'linux').toLowerCase(),
+    idLike: (values.ID_LIKE || '').toLowerCase().split(/\s+/).filter(Boolean),
+    versionId: values.VERSION_ID || '',
+    versionCodename: values.VERSION_CODENAME || '',
+    ubuntuCodename: values.UBUNTU_CODENAME || '',
+    prettyName: values.PRETTY_NAME || values.NAME || 'Linux'
+  }
+}
+
+/**
+ * Read the identification of the Linux distribution.
  *
- * Alternative: source /etc/os-release ; echo -n "$VERSION_ID"
+ * "/usr/lib/os-release" is the fallback, if "/etc/os-release" doesn't exist.
  *
  * @export
+ * @return {*}  {(OsRelease | undefined)} The identification or undefined, if there is no os-release file.
  */
-export function getLinuxDistributionVersionId(): string {
-  const osReleasePath = '/etc/os-release'
-  if (fs.existsSync(osReleasePath)) {
-    const osReleaseContent = fs.readFileSync(osReleasePath, 'utf8')
-    const versionMatch = osReleaseContent.match(/VERSION_ID="(\d+\.\d+)"/)
-    if (versionMatch) {
-      return versionMatch[1]
+export function readOsRelease(): OsRelease | undefined {
+  for (const osReleasePath of ['/etc/os-release', '/usr/lib/os-release']) {
+    if (fs.existsSync(osReleasePath)) {
+      return parseOsRelease(fs.readFileSync(osReleasePath, 'utf8'))
     }
   }
-  return ''
+  return undefined
 }
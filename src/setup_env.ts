@@ -0,0 +1,314 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as platform from './platform'
+
+/**
+ * The environment setup of the SDK.
+ *
+ * @export
+ * @interface EnvironmentSetup
+ */
+export interface EnvironmentSetup {
+  // the exported variables (except PATH) in the order of their export
+  variables: Record<string, string>
+  // the folders added to PATH, highest precedence first
+  paths: string[]
+}
+
+/**
+ * The paths of the generated environment scripts.
+ *
+ * @export
+ * @interface EnvironmentScripts
+ */
+export interface EnvironmentScripts {
+  sh: string
+  ps1: string
+  dotenv: string
+}
+
+/**
+ * Find the "setup-env.sh" script of the SDK (Linux and MacOS).
+ *
+ * The script is located in the versionized SDK folder, which is the parent folder of VULKAN_SDK,
+ * e.g. "/home/runner/vulkan-sdk/1.3.250.1/setup-env.sh" for "/home/runner/vulkan-sdk/1.3.250.1/x86_64".
+ *
+ * @export
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK).
+ * @return {*}  {string} The path of the script or an empty string, if the script doesn't exist.
+ */
+export function findSetupEnv(sdkPath: string): string {
+  const script = path.join(path.dirname(sdkPath), 'setup-env.sh')
+  return fs.existsSync(script) ? script : ''
+}
+
+/**
+ * Parse the exports of the "setup-env.sh" script.
+ *
+ * Supported are simple assignments ("NAME=value", "export NAME=value"), "export NAME" statements,
+ * the expansions "$NAME", "${NAME}", "${NAME:+word}" and "${NAME:-word}" and the command substitution
+ * resolving the folder of the script ("$(dirname "$(readlink -f "${BASH_SOURCE:-$_}")")").
+ * Assignments inside of conditionals and functions and other command substitutions are skipped.
+ *
+ * @export
+ * @param {string} content - The content of the script.
+ * @param {string} scriptDir - The folder of the script.
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The current environment.
+ * @return {*}  {EnvironmentSetup}
+ */
+export function parseSetupEnv(
+  content: string,
+  scriptDir: string,
+  env: NodeJS.ProcessEnv = process.env
+): EnvironmentSetup {
+  const values: Record<string, string | undefined> = { ...env }
+  const exported: string[] = []
+  let depth = 0
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    if (line === '' || line.startsWith('#')) {
+      continue
+    }
+    if (/^(if|case|while|for|until)\b/.test(line) || /\(\)\s*\{?$/.test(line)) {
+      depth++
+      continue
+    }
+    if (/^(fi|esac|done|\})\b/.test(line)) {
+      depth = Math.max(0, depth - 1)
+      continue
+    }
+    if (depth > 0) {
+      continue
+    }
+
+    const exportOnly = line.match(/^export\s+([A-Za-z_]\w*(?:\s+[A-Za-z_]\w*)*)$/)
+    if (exportOnly) {
+      exported.push(...exportOnly[1].split(/\s+/))
+      continue
+    }
+
+    const assignment = line.match(/^(export\s+)?([A-Za-z_]\w*)=(.*)$/)
+    if (!assignment) {
+      core.debug(`setup-env.sh: skipping '${line}'`)
+      continue
+    }
+    const [, isExport, name, rawValue] = assignment
+    const value = evaluate(rawValue, scriptDir, values)
+    if (value === undefined) {
+      core.debug(`setup-env.sh: skipping unsupported assignment '${line}'`)
+      continue
+    }
+    values[name] = value
+    if (isExport) {
+      exported.push(name)
+    }
+  }
+
+  const setup: EnvironmentSetup = { variables: {}, paths: [] }
+  for (const name of new Set(exported)) {
+    const value = values[name]
+    if (value === undefined) {
+      continue
+    }
+    if (name === 'PATH') {
+      const currentPaths = (env.PATH || '').split(path.delimiter)
+      setup.paths = value.split(':').filter(folder => folder && !currentPaths.includes(folder))
+    } else {
+      setup.variables[name] = value
+    }
+  }
+  return setup
+}
+
+/**
+ * Evaluate the value of an assignment.
+ *
+ * @param {string} rawValue - The value as written in the script.
+ * @param {string} scriptDir - The folder of the script.
+ * @param {Record<string, string | undefined>} values - The variables.
+ * @return {*}  {(string | undefined)} The value or undefined, if the value is not supported.
+ */
+function evaluate(rawValue: string, scriptDir: string, values: Record<string, string | undefined>): string | undefined {
+  if (/^'[^']*'$/.test(rawValue)) {
+    return rawValue.slice(1, -1)
+  }
+  const substituted = substituteCommands(rawValue, scriptDir)
+  if (substituted === undefined) {
+    return undefined
+  }
+  return expand(substituted.replace(/"/g, ''), values)
+}
+
+/**
+ * Replace the command substitutions, which resolve the folder of the script, with the folder.
+ *
+ * @param {string} value - The value.
+ * @param {string} scriptDir - The folder of the script.
+ * @return {*}  {(string | undefined)} The value or undefined, if there is another command substitution.
+ */
+function substituteCommands(value: string, scriptDir: string): string | undefined {
+  let result = value
+  let start = result.indexOf('$(')
+  while (start !== -1) {
+    let depth = 0
+    let end = start + 1
+    for (; end < result.length; end++) {
+      if (result[end] === '(') {
+        depth++
+      } else if (result[end] === ')' && --depth === 0) {
+        break
+      }
+    }
+    const command = result.slice(start + 2, end)
+    if (end >= result.length || !/BASH_SOURCE|\$0/.test(command)) {
+      return undefined
+    }
+    result = result.slice(0, start) + scriptDir + result.slice(end + 1)
+    start = result.indexOf('$(')
+  }
+  return result
+}
+
+/**
+ * Expand the variables "$NAME", "${NAME}", "${NAME:+word}" and "${NAME:-word}".
+ *
+ * @param {string} value - The value.
+ * @param {Record<string, string | undefined>} values - The variables.
+ * @return {*}  {string}
+ */
+function expand(value: string, values: Record<string, string | undefined>): string {
+  return value.replace(
+    /\$\{(\w+)(?::([+-])([^}]*))?\}|\$(\w+)/g,
+    (_match, name: string, operator: string, word: string, plainName: string) => {
+      if (plainName) {
+        return values[plainName] ?? ''
+      }
+      const variable = values[name] ?? ''
+      if (operator === '+') {
+        return variable ? expand(word, values) : ''
+      }
+      if (operator === '-') {
+        return variable || expand(word, values)
+      }
+      return variable
+    }
+  )
+}
+
+/**
+ * Get the environment setup of the SDK without "setup-env.sh".
+ *
+ * This is the fallback, if the SDK has no "setup-env.sh" script (e.g. on Windows).
+ * It sets PATH, VULKAN_SDK, VK_LAYER_PATH and LD_LIBRARY_PATH (Linux) or DYLD_LIBRARY_PATH (MacOS).
+ *
+ * @export
+ * @param {string} sdkPath - The path of the Vulkan SDK (VULKAN_SDK).
+ * @param {NodeJS.ProcessEnv} [env=process.env] - The current environment.
+ * @return {*}  {EnvironmentSetup}
+ */
+export function getDefaultEnvironmentSetup(sdkPath: string, env: NodeJS.ProcessEnv = process.env): EnvironmentSetup {
+  // export PATH=$VULKAN_SDK/bin:$PATH
+  // export VULKAN_SDK=~/vulkan/1.x.yy.z/x86_64
+  const setup: EnvironmentSetup = { variables: {}, paths: [path.normalize(`${sdkPath}/bin`)] }
+  setup.variables.VULKAN_SDK = sdkPath
+
+  if (platform.IS_LINUX || platform.IS_LINUX_ARM || platform.IS_MAC) {
+    // export VK_LAYER_PATH=$VULKAN_SDK/etc/vulkan/explicit_layer.d
+    setup.variables.VK_LAYER_PATH = `${sdkPath}/etc/vulkan/explicit_layer.d`
+
+    // export LD_LIBRARY_PATH=$VULKAN_SDK/lib${LD_LIBRARY_PATH:+:$LD_LIBRARY_PATH}
+    const libraryPathVariable = platform.IS_MAC ? 'DYLD_LIBRARY_PATH' : 'LD_LIBRARY_PATH'
+    const libraryPath = env[libraryPathVariable] || ''
+    setup.variables[libraryPathVariable] = `${sdkPath}/lib${libraryPath ? `:${libraryPath}` : ''}`
+  }
+  return setup
+}
+
+/**
+ * Apply the environment setup: add the folders to PATH and export the variables.
+ *
+ * @export
+ * @param {EnvironmentSetup} setup - The environment setup.
+ */
+export function applyEnvironmentSetup(setup: EnvironmentSetup): void {
+  // core.addPath() prepends, add the folder with the highest precedence last
+  for (const folder of [...setup.paths].reverse()) {
+    core.addPath(folder)
+    core.info(`✔️ [PATH] Added path "${folder}" to environment variable PATH.`)
+  }
+  for (const [name, value] of Object.entries(setup.variables)) {
+    core.exportVariable(name, value)
+    core.info(`✔️ [ENV] Set env variable ${name} -> "${value}".`)
+  }
+}
+
+/**
+ * Write the environment setup as scripts, which can be sourced in later shells or containers,
+ * which don't see GITHUB_ENV: "vulkan-env.sh", "vulkan-env.ps1" and the dotenv file "vulkan.env".
+ *
+ * The dotenv file doesn't contain PATH, because its values are not expanded (e.g. by "docker run --env-file")
+ * and would replace the PATH of the container.
+ *
+ * @export
+ * @param {EnvironmentSetup} setup - The environment setup.
+ * @param {string} folder - The folder to write the scripts to, e.g. a folder in RUNNER_TEMP.
+ * @return {*}  {EnvironmentScripts} The paths of the scripts.
+ */
+export function writeEnvironmentScripts(setup: EnvironmentSetup, folder: string): EnvironmentScripts {
+  const header = '# Vulkan SDK environment, generated by install-vulkan-sdk-action.'
+  const variables = Object.entries(setup.variables)
+
+  const sh = [header]
+  if (setup.paths.length) {
+    sh.push(`export PATH="${escapeSh(setup.paths.join(':'))}\${PATH:+:$PATH}"`)
+  }
+  sh.push(...variables.map(([name, value]) => `export ${name}="${escapeSh(value)}"`))
+
+  const ps1 = [header]
+  if (setup.paths.length) {
+    const paths = setup.paths.map(escapePs1).join(`' + [IO.Path]::PathSeparator + '`)
+    ps1.push(`$env:PATH = '${paths}' + [IO.Path]::PathSeparator + $env:PATH`)
+  }
+  ps1.push(...variables.map(([name, value]) => `$env:${name} = '${escapePs1(value)}'`))
+
+  const dotenv = [header, ...variables.map(([name, value]) => `${name}=${value}`)]
+
+  const scripts: EnvironmentScripts = {
+    sh: path.join(folder, 'vulkan-env.sh'),
+    ps1: path.join(folder, 'vulkan-env.ps1'),
+    dotenv: path.join(folder, 'vulkan.env')
+  }
+  fs.mkdirSync(folder, { recursive: true })
+  fs.writeFileSync(scripts.sh, `${sh.join('\n')}\n`)
+  fs.writeFileSync(scripts.ps1, `${ps1.join('\n')}\n`)
+  fs.writeFileSync(scripts.dotenv, `${dotenv.join('\n')}\n`)
+  core.info(`✔️ [ENV] Wrote environment scripts: ${scripts.sh}, ${scripts.ps1}, ${scripts.dotenv}`)
+  return scripts
+}
+
+/**
+ * Escape a value for a double-quoted string of a POSIX shell.
+ *
+ * @param {string} value
+ * @return {*}  {string}
+ */
+function escapeSh(value: string): string {
+  return value.replace(/[\\"$`]/g, '\\$&')
+}
+
+/**
+ * Escape a value for a single-quoted string of PowerShell.
+ *
+ * @param {string} value
+ * @return {*}  {string}
+ */
+function escapePs1(value: string): string {
+  return value.replace(/'/g, "''")
+}
@@ -0,0 +1,198 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as tc from '@actions/tool-cache'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as http from './http'
+import * as installerVulkan from './installer_vulkan'
+import * as platform from './platform'
+
+/**
+ * The supported software drivers (ICDs) and the filenames of their libraries on Linux, Windows and MacOS.
+ *
+ *  - lavapipe: Mesa's software rasterizer, https://docs.mesa3d.org/drivers/llvmpipe.html
+ *  - swiftshader: Google's CPU implementation of Vulkan, https://github.com/google/swiftshader
+ */
+export const SOFTWARE_DRIVERS: Record<string, string[]> = {
+  lavapipe: ['libvulkan_lvp.so', 'vulkan_lvp.dll', 'libvulkan_lvp.dylib'],
+  swiftshader: ['libvk_swiftshader.so', 'vk_swiftshader.dll', 'libvk_swiftshader.dylib']
+}
+
+/**
+ * An installed software driver.
+ *
+ * @export
+ * @interface SoftwareDriver
+ */
+export interface SoftwareDriver {
+  name: string
+  library: string
+  icdFile: string
+}
+
+/**
+ * The ICD manifest of a driver, which points the Vulkan loader to the driver library.
+ *
+ * @see https://github.com/KhronosGroup/Vulkan-Loader/blob/main/docs/LoaderDriverInterface.md#driver-manifest-file-format
+ * @interface IcdManifest
+ */
+interface IcdManifest {
+  // biome-ignore lint/style/useNamingConvention: ICD manifest format
+  file_format_version: string
+  // biome-ignore lint/style/useNamingConvention: ICD manifest format
+  ICD: {
+    // biome-ignore lint/style/useNamingConvention: ICD manifest format
+    library_path: string
+    // biome-ignore lint/style/useNamingConvention: ICD manifest format
+    api_version: string
+  }
+}
+
+/**
+ * Install a software driver (ICD) from an archive, for runners without GPU.
+ *
+ * The archive is downloaded (URL) or taken from a local path and extracted.
+ * The ICD JSON is written next to the driver library, pointing to its absolute path.
+ * The API version is taken from the ICD JSON shipped in the archive, e.g. "lvp_icd.x86_64.json".
+ * Without one, the API version of the Vulkan SDK is used.
+ * A plain library file (e.g. "libvulkan_lvp.so") is accepted instead of an archive, too.
+ *
+ * @export
+ * @param {string} name - The name of the driver, "lavapipe" or "swiftshader".
+ * @param {string} archive - The URL or local path of the archive.
+ * @param {http.RetryOptions} options - The retry options for the download.
+ * @param {string} sdkVersion - The version of the Vulkan SDK, e.g. "1.3.250.1".
+ * @param {string} [destination] - The installation folder. Defaults to a folder in TEMP_DIR.
+ * @return {*}  {Promise<SoftwareDriver>}
+ */
+export async function installSoftwareDriver(
+  name: string,
+  archive: string,
+  options: http.RetryOptions,
+  sdkVersion: string,
+  destination: string = path.join(platform.TEMP_DIR, 'vulkan-software-driver', name)
+): Promise<SoftwareDriver> {
+  const libraries = SOFTWARE_DRIVERS[name]
+  if (libraries === undefined) {
+    throw new Error(`Unknown software driver '${name}'.`)
+  }
+  core.info(`🖥️ Installing software driver ${name} from ${archive}`)
+
+  let file = archive
+  if (/^https?:\/\//i.test(archive)) {
+    const filename = path.basename(new URL(archive).pathname) || `${name}.zip`
+    file = await http.downloadFile(archive, path.join(platform.TEMP_DIR, filename), options)
+  }
+
+  fs.rmSync(destination, { recursive: true, force: true })
+  fs.mkdirSync(destination, { recursive: true })
+  if (file.endsWith('.zip')) {
+    await tc.extractZip(file, destination)
+  } else if (file.endsWith('.7z')) {
+    // outside of Windows, "7z" is needed on PATH
+    await installerVulkan.extract7z(file, destination)
+  } else if (/\.(tar\.gz|tgz)$/.test(file)) {
+    await tc.extractTar(file, destination)
+  } else if (file.endsWith('.tar.xz')) {
+    await tc.extractTar(file, destination, ['-xJ'])
+  } else {
+    fs.copyFileSync(file, path.join(destination, path.basename(file)))
+  }
+
+  const library = findFile(destination, libraries)
+  if (!library) {
+    throw new Error(`The software driver library (${libraries.join(', ')}) was not found in '${archive}'.`)
+  }
+
+  const shippedIcdFile = findFile(destination, [], /_icd(\.[^.]+)?\.json$/)
+  const shippedIcd = shippedIcdFile ? readIcdManifest(shippedIcdFile) : undefined
+
+  const icdFile = path.join(path.dirname(library), `${name}_icd.json`)
+  const apiVersion = shippedIcd?.ICD.api_version ?? sdkVersion.split('.').slice(0, 3).join('.')
+  const icd: IcdManifest = {
+    // biome-ignore lint/style/useNamingConvention: ICD manifest format
+    file_format_version: shippedIcd?.file_format_version ?? '1.0.0',
+    // biome-ignore lint/style/useNamingConvention: ICD manifest format
+    ICD: {
+      // biome-ignore lint/style/useNamingConvention: ICD manifest format
+      library_path: library,
+      // biome-ignore lint/style/useNamingConvention: ICD manifest format
+      api_version: apiVersion
+    }
+  }
+  fs.writeFileSync(icdFile, `${JSON.stringify(icd, null, 2)}\n`)
+  core.info(`✔️ Software driver ${name} installed: ${library}`)
+  core.info(`   ICD: ${icdFile}`)
+
+  return { name, library, icdFile }
+}
+
+/**
+ * Read the ICD manifest shipped with a driver.
+ *
+ * @param {string} file - The path of the ICD manifest.
+ * @return {*}  {(IcdManifest | undefined)} The ICD manifest or undefined, if the file is not a valid ICD manifest.
+ */
+function readIcdManifest(file: string): IcdManifest | undefined {
+  let icd: unknown
+  try {
+    icd = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (error) {
+    core.warning(`The shipped ICD '${file}' is not valid JSON: ${(error as Error).message}. Using the SDK version.`)
+    return undefined
+  }
+  if (!isIcdManifest(icd)) {
+    core.warning(`The shipped ICD '${file}' is not a valid ICD manifest. Using the SDK version.`)
+    return undefined
+  }
+  core.info(`   Shipped ICD: ${file}`)
+  return icd
+}
+
+/**
+ * Check, if a parsed JSON value has the shape of an ICD manifest.
+ *
+ * @param {unknown} value - The parsed JSON value.
+ * @return {*}  {boolean}
+ */
+function isIcdManifest(value: unknown): value is IcdManifest {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const manifest = value as Record<string, unknown>
+  const icd = manifest.ICD as Record<string, unknown> | null
+  return (
+    typeof manifest.file_format_version === 'string' &&
+    typeof icd === 'object' &&
+    icd !== null &&
+    typeof icd.library_path === 'string' &&
+    typeof icd.api_version === 'string'
+  )
+}
+
+/**
+ * Find the first file with one of the given filenames or matching the pattern in a folder (recursively).
+ *
+ * @param {string} folder - The folder.
+ * @param {string[]} filenames - The filenames.
+ * @param {RegExp} [pattern] - The pattern of the filename.
+ * @return {*}  {(string | undefined)} The path of the file or undefined, if not found.
+ */
+function findFile(folder: string, filenames: string[], pattern?: RegExp): string | undefined {
+  for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+    const entryPath = path.join(folder, entry.name)
+    if (entry.isDirectory()) {
+      const found = findFile(entryPath, filenames, pattern)
+      if (found) {
+        return found
+      }
+    } else if (filenames.includes(entry.name) || pattern?.test(entry.name)) {
+      return entryPath
+    }
+  }
+  return undefined
+}
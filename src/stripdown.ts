@@ -0,0 +1,316 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as platform from './platform'
+
+/**
+ * A stripdown profile.
+ *
+ * All paths are glob patterns relative to the versionized SDK folder, e.g. "C:\VulkanSDK\1.3.250.1".
+ * Files matching "remove" are deleted. If "keep" is not empty, all files not matching "keep" are deleted, too.
+ *
+ * @export
+ * @interface StripdownProfile
+ */
+export interface StripdownProfile {
+  description: string
+  keep: string[]
+  remove: string[]
+}
+
+/**
+ * The number of removed files and bytes.
+ *
+ * @export
+ * @interface RemovalResult
+ */
+export interface RemovalResult {
+  files: number
+  bytes: number
+}
+
+/**
+ * The result of a stripdown.
+ *
+ * @export
+ * @interface StripdownResult
+ */
+export interface StripdownResult extends RemovalResult {
+  profile: string
+}
+
+/*
+ Glob syntax:
+  - "*" matches any characters except "/", "?" matches a single character except "/"
+  - "**" matches any number of folders
+  - a pattern with a leading "/" is anchored at the versionized SDK folder
+  - a pattern without "/" matches the filename in any folder
+ Patterns are case-insensitive, because the SDK layout differs in case between platforms ("Bin" vs "bin").
+*/
+
+// leftovers of the installers, e.g. maintenancetool.exe, installer.dat, network.xml
+const INSTALLER_LEFTOVERS_WINDOWS: string[] = [
+  '/Demos/**',
+  '/Helpers/**',
+  '/installerResources/**',
+  '/Licenses/**',
+  '/Templates/**',
+  '/*'
+]
+
+const INSTALLER_LEFTOVERS: string[] = [
+  '/maintenancetool*',
+  '/maintenancetool*/**',
+  '/installer.dat',
+  '/network.xml',
+  '/components.xml',
+  '/InstallationLog.txt'
+]
+
+const DOCS_AND_SAMPLES: string[] = [
+  '/source/**',
+  '/Documentation/**',
+  '**/examples/**',
+  '**/samples/**',
+  '**/share/doc/**',
+  '**/share/man/**'
+]
+
+// always kept, needed to verify and to setup the installation
+const ESSENTIALS: string[] = ['**/bin/vulkaninfo*', '/setup-env.sh', '/runtime/**']
+
+const LOADER: string[] = [
+  '**/lib/libvulkan*',
+  '**/lib/vulkan-1.*',
+  '**/lib/pkgconfig/vulkan.pc',
+  '**/lib/cmake/VulkanLoader/**',
+  '**/lib/libMoltenVK*',
+  '**/Frameworks/vulkan.framework/**',
+  '**/share/vulkan/icd.d/**'
+]
+
+const COMPILER_TOOLS: string[] = [
+  '**/bin/glslc*',
+  '**/bin/glslang*',
+  '**/bin/spirv-*',
+  '**/bin/dxc*',
+  '**/bin/libdxcompiler*',
+  '**/bin/shaderc_shared*',
+  '**/lib/libdxcompiler*',
+  '**/lib/dxcompiler*',
+  '**/lib/libshaderc_shared*',
+  '**/lib/shaderc_shared*'
+]
+
+// the installer leftovers of the target platform are added to "remove" by stripdown(), see getInstallerLeftovers()
+export const STRIPDOWN_PROFILES: Record<string, StripdownProfile> = {
+  full: {
+    description: 'removes installer leftovers, docs and samples',
+    keep: [],
+    remove: [...DOCS_AND_SAMPLES]
+  },
+  'compiler-tools': {
+    description: 'keeps headers, the loader, the shader compilers and SPIR-V tools',
+    keep: [...ESSENTIALS, '**/include/**', ...LOADER, ...COMPILER_TOOLS],
+    remove: [...DOCS_AND_SAMPLES]
+  },
+  'minimal-headers-loader': {
+    description: 'keeps only the Vulkan headers and the loader',
+    keep: [...ESSENTIALS, '**/include/vulkan/**', '**/include/vk_video/**', ...LOADER],
+    remove: [...DOCS_AND_SAMPLES]
+  }
+}
+
+/**
+ * Get the globs of the installer leftovers of the target platform.
+ *
+ * @export
+ * @param {platform.Target} target - The target platform of the SDK.
+ * @return {*}  {string[]}
+ */
+export function getInstallerLeftovers(target: platform.Target): string[] {
+  return target.os === 'windows' ? INSTALLER_LEFTOVERS_WINDOWS : INSTALLER_LEFTOVERS
+}
+
+/**
+ * Convert a glob pattern into a regular expression.
+ *
+ * @export
+ * @param {string} glob - The glob pattern, e.g. "**\/lib/*.a".
+ * @return {*}  {RegExp}
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/\\/g, '/')
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1)
+  } else if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`
+  }
+  let regex = ''
+  let i = 0
+  while (i < pattern.length) {
+    if (pattern.startsWith('**/', i)) {
+      regex += '(?:.*/)?'
+      i += 3
+    } else if (pattern.startsWith('**', i)) {
+      regex += '.*'
+      i += 2
+    } else if (pattern[i] === '*') {
+      regex += '[^/]*'
+      i++
+    } else if (pattern[i] === '?') {
+      regex += '[^/]'
+      i++
+    } else {
+      regex += pattern[i].replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      i++
+    }
+  }
+  return new RegExp(`^${regex}$`, 'i')
+}
+
+/**
+ * Check, if a relative path matches any of the glob patterns.
+ *
+ * @export
+ * @param {string} relativePath - The path relative to the versionized SDK folder, using "/" as separator.
+ * @param {string[]} globs - The glob patterns.
+ * @return {*}  {boolean}
+ */
+export function matchesAny(relativePath: string, globs: string[]): boolean {
+  return globs.some(glob => globToRegExp(glob).test(relativePath))
+}
+
+/**
+ * Decide, if a file is removed.
+ *
+ * The order of precedence is: include globs, exclude globs, profile removals, profile keeps.
+ *
+ * @export
+ * @param {string} relativePath - The path relative to the versionized SDK folder, using "/" as separator.
+ * @param {StripdownProfile} profile - The stripdown profile.
+ * @param {string[]} include - The globs of files to keep in any case.
+ * @param {string[]} exclude - The globs of files to remove in any case.
+ * @return {*}  {boolean}
+ */
+export function isRemoved(
+  relativePath: string,
+  profile: StripdownProfile,
+  include: string[],
+  exclude: string[]
+): boolean {
+  if (matchesAny(relativePath, include)) {
+    return false
+  }
+  if (matchesAny(relativePath, exclude)) {
+    return true
+  }
+  if (matchesAny(relativePath, profile.remove)) {
+    return true
+  }
+  return profile.keep.length > 0 && !matchesAny(relativePath, profile.keep)
+}
+
+/**
+ * Remove the files from the versionized SDK folder, which are not needed in the CI context.
+ *
+ * @export
+ * @param {string} sdkPath - The versionized SDK folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @param {string} profileName - The name of the stripdown profile.
+ * @param {string[]} [include=[]] - The globs of files to keep in any case.
+ * @param {string[]} [exclude=[]] - The globs of files to remove in any case.
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform of the SDK.
+ * @return {*}  {StripdownResult}
+ */
+export function stripdown(
+  sdkPath: string,
+  profileName: string,
+  include: string[] = [],
+  exclude: string[] = [],
+  target: platform.Target = platform.HOST_TARGET
+): StripdownResult {
+  const profileOfName = STRIPDOWN_PROFILES[profileName]
+  if (profileOfName === undefined) {
+    throw new Error(`Unknown stripdown profile '${profileName}'.`)
+  }
+  const profile = { ...profileOfName, remove: [...getInstallerLeftovers(target), ...profileOfName.remove] }
+  const result = removeFiles(sdkPath, relativePath => isRemoved(relativePath, profile, include, exclude))
+  return { profile: profileName, ...result }
+}
+
+/**
+ * Remove files from a folder. Folders, which were emptied by the removal, are removed afterwards.
+ * Folders, which were empty before, are kept.
+ *
+ * @export
+ * @param {string} folder - The folder, e.g. the versionized SDK folder "/home/runner/vulkan-sdk/1.3.250.1".
+ * @param {(relativePath: string) => boolean} isRemovable - Decides, if a file is removed,
+ *   given the path relative to the folder, using "/" as separator.
+ * @return {*}  {RemovalResult}
+ */
+export function removeFiles(folder: string, isRemovable: (relativePath: string) => boolean): RemovalResult {
+  const result: RemovalResult = { files: 0, bytes: 0 }
+  if (fs.existsSync(folder)) {
+    removeFilesInFolder(folder, '', isRemovable, result)
+  }
+  return result
+}
+
+/**
+ * Walk a folder recursively and remove files. Symlinks are not followed.
+ *
+ * @return {*}  {boolean} True, if the folder was emptied by the removal.
+ */
+function removeFilesInFolder(
+  folder: string,
+  relativeFolder: string,
+  isRemovable: (relativePath: string) => boolean,
+  result: RemovalResult
+): boolean {
+  let isEmpty = true
+  let hasRemoved = false
+  for (const entry of fs.readdirSync(folder, { withFileTypes: true })) {
+    const entryPath = path.join(folder, entry.name)
+    const relativePath = relativeFolder ? `${relativeFolder}/${entry.name}` : entry.name
+    if (entry.isDirectory()) {
+      if (removeFilesInFolder(entryPath, relativePath, isRemovable, result)) {
+        fs.rmdirSync(entryPath)
+        hasRemoved = true
+      } else {
+        isEmpty = false
+      }
+    } else if (isRemovable(relativePath)) {
+      result.bytes += fs.lstatSync(entryPath).size
+      result.files++
+      fs.unlinkSync(entryPath)
+      hasRemoved = true
+      core.debug(`Deleted file: ${entryPath}`)
+    } else {
+      isEmpty = false
+    }
+  }
+  return isEmpty && hasRemoved
+}
+
+/**
+ * Format a number of bytes, e.g. "12.3 MB".
+ *
+ * @export
+ * @param {number} bytes
+ * @return {*}  {string}
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`
+}
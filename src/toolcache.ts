@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as tc from '@actions/tool-cache' // https://github.com/actions/toolkit/tree/main/packages/tool-cache
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as platform from './platform'
+
+// The name of the tool in the runner's tool cache, e.g. "/opt/hostedtoolcache/vulkan-sdk/1.3.250.1/x64-0123456789ab".
+const TOOL_NAME = 'vulkan-sdk'
+
+/**
+ * Get the architecture folder of the tool cache entry, e.g. "x64-0123456789ab".
+ *
+ * The hash of the installation options (see cache_vulkan.getCacheKeyHash()) is appended to the architecture,
+ * because the registered SDK is pruned to the optional components and stripped down.
+ * The version folder stays a plain version, which is found by installer_vulkan.getVulkanSdkPath().
+ *
+ * @param {string} arch - The architecture, e.g. "x64" or "arm64".
+ * @param {string} optionsHash - The hash of the installation options.
+ * @return {*}  {string}
+ */
+function getToolArch(arch: string, optionsHash: string): string {
+  return `${arch}-${optionsHash}`
+}
+
+/**
+ * Find the Vulkan SDK in the runner's tool cache.
+ *
+ * Note: tc.find() only resolves semver versions (major.minor.patch) and can't find
+ * a "major.minor.build.rev" version. Therefore, the lookup is done here, using the same
+ * folder layout and ".complete" marker file as tc.cacheDir().
+ *
+ * @export
+ * @param {string} version - The version of the Vulkan SDK.
+ * @param {string} optionsHash - The hash of the installation options.
+ * @param {string} [arch=platform.OS_ARCH] - The architecture, e.g. "x64" or "arm64".
+ * @return {*}  {string} The path to the cached SDK or an empty string, if not found.
+ */
+export function findVulkanSdk(version: string, optionsHash: string, arch: string = platform.OS_ARCH): string {
+  const toolCacheDir = process.env.RUNNER_TOOL_CACHE || ''
+  if (!toolCacheDir) {
+    core.debug('RUNNER_TOOL_CACHE is not set.')
+    return ''
+  }
+  const cachePath = path.join(toolCacheDir, TOOL_NAME, version, getToolArch(arch, optionsHash))
+  core.debug(`checking tool cache: ${cachePath}`)
+  if (fs.existsSync(cachePath) && fs.existsSync(`${cachePath}.complete`)) {
+    return cachePath
+  }
+  return ''
+}
+
+/**
+ * Register the versionized SDK folder in the runner's tool cache.
+ *
+ * The folder contents are copied to "RUNNER_TOOL_CACHE/vulkan-sdk/VERSION/ARCH-HASH".
+ *
+ * @export
+ * @param {string} versionizedSdkPath - The versionized SDK folder, e.g. "/home/runner/vulkan-sdk/1.3.250.1".
+ * @param {string} version - The version of the Vulkan SDK.
+ * @param {string} optionsHash - The hash of the installation options.
+ * @param {string} [arch=platform.OS_ARCH] - The architecture, e.g. "x64" or "arm64".
+ * @return {*}  {Promise<string>} The path to the cached SDK.
+ */
+export async function cacheVulkanSdk(
+  versionizedSdkPath: string,
+  version: string,
+  optionsHash: string,
+  arch: string = platform.OS_ARCH
+): Promise<string> {
+  const cachePath = await tc.cacheDir(versionizedSdkPath, TOOL_NAME, version, getToolArch(arch, optionsHash))
+  core.info(`🧰 [ToolCache] Registered Vulkan SDK in tool cache: '${cachePath}'.`)
+  return cachePath
+}
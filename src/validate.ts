@@ -0,0 +1,250 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import type { Inputs } from './inputs'
+import * as platform from './platform'
+import * as versions from './versions'
+import * as versionsVulkan from './versions_vulkan'
+
+/**
+ * The problems found by the input validation.
+ * Errors fail the action, warnings are only reported.
+ *
+ * @export
+ * @interface ValidationProblems
+ */
+export interface ValidationProblems {
+  errors: string[]
+  warnings: string[]
+}
+
+/**
+ * Validate all inputs in one pass and report all problems together.
+ *
+ * Each problem is reported as a GitHub annotation. If there are errors, an error is thrown,
+ * which lists all of them.
+ *
+ * @export
+ * @param {Inputs} inputs - The inputs of the action.
+ * @param {string[]} [errors=[]] - The errors found while reading the individual inputs.
+ * @return {*}  {Promise<void>}
+ * @throws {Error} If there is at least one error.
+ */
+export async function validateInputs(inputs: Inputs, errors: string[] = []): Promise<void> {
+  const problems: ValidationProblems = { errors: [...errors], warnings: [] }
+
+  const destinationError = validateDestination(inputs.destination)
+  if (destinationError) {
+    problems.errors.push(destinationError)
+  }
+
+  for (const version of inputs.versions) {
+    const versionError = await validateVersionExists({ ...inputs, version })
+    if (versionError) {
+      problems.errors.push(versionError)
+    }
+  }
+
+  const softwareDriverError = validateSoftwareDriver(inputs)
+  if (softwareDriverError) {
+    problems.errors.push(softwareDriverError)
+  }
+
+  const checksumError = validateSdkChecksum(inputs)
+  if (checksumError) {
+    problems.errors.push(checksumError)
+  }
+
+  const targetError = validateTarget(inputs.target)
+  if (targetError) {
+    problems.errors.push(targetError)
+  }
+
+  problems.warnings.push(...validateFlagCombinations(inputs))
+
+  reportProblems(problems)
+}
+
+/**
+ * Check, if the destination is an absolute path and writable.
+ *
+ * The destination might not exist yet, then the nearest existing parent folder must be writable.
+ *
+ * @export
+ * @param {string} destination - The installation destination.
+ * @return {*}  {(string | undefined)} The error or undefined, if the destination is valid.
+ */
+export function validateDestination(destination: string): string | undefined {
+  if (!path.isAbsolute(destination)) {
+    return `Invalid "destination: ${destination}". Please specify an absolute path.`
+  }
+  let folder = destination
+  while (!fs.existsSync(folder) && path.dirname(folder) !== folder) {
+    folder = path.dirname(folder)
+  }
+  try {
+    fs.accessSync(folder, fs.constants.W_OK)
+  } catch {
+    return `Invalid "destination: ${destination}". The folder '${folder}' is not writable.`
+  }
+  return undefined
+}
+
+/**
+ * Check, if an exact version is available for the target platform.
+ *
+ * The check is skipped for "latest", version ranges (resolved later) and the offline mode ("sdk_archive").
+ * If the list of available versions can't be retrieved, the check is skipped, too.
+ *
+ * @export
+ * @param {Inputs} inputs - The inputs of the action.
+ * @return {*}  {(Promise<string | undefined>)} The error or undefined, if the version is available.
+ */
+export async function validateVersionExists(inputs: Inputs): Promise<string | undefined> {
+  const version = inputs.version
+  if (inputs.sdkArchive || version === 'latest' || versions.SdkVersion.tryParse(version) === null) {
+    return undefined
+  }
+  let availableVersions: string[] | null
+  try {
+    availableVersions = await versionsVulkan.getAvailableVersions(inputs.target)
+  } catch (error) {
+    core.debug(`Skipping the version check: ${(error as Error).message}`)
+    return undefined
+  }
+  if (!availableVersions || availableVersions.includes(version)) {
+    return undefined
+  }
+  const closest = versions.closest(availableVersions, version).join(', ')
+  return `Invalid "vulkan_version: ${version}". The version is not available for ${platform.getTargetPlatform(inputs.target)}. Closest available versions: ${closest}.`
+}
+
+/**
+ * Check, if the software driver and its archive are set together and the local archive exists.
+ *
+ * @export
+ * @param {Inputs} inputs - The inputs of the action.
+ * @return {*}  {(string | undefined)} The error or undefined, if the software driver inputs are valid.
+ */
+export function validateSoftwareDriver(inputs: Inputs): string | undefined {
+  const archive = inputs.softwareDriverArchive
+  if (inputs.softwareDriver && !archive) {
+    return `"software_driver: ${inputs.softwareDriver}" requires "software_driver_archive", the URL or path of the driver archive.`
+  }
+  if (!inputs.softwareDriver && archive) {
+    return `"software_driver_archive" requires "software_driver", e.g. "lavapipe" or "swiftshader".`
+  }
+  if (archive && !/^https?:\/\//i.test(archive) && !fs.existsSync(archive)) {
+    return `Invalid "software_driver_archive: ${archive}". The file does not exist.`
+  }
+  return undefined
+}
+
+/**
+ * Check, if the SDK checksum applies to a single download.
+ *
+ * The checksum identifies one file, so it can't verify the downloads of multiple versions.
+ *
+ * @export
+ * @param {Inputs} inputs - The inputs of the action.
+ * @return {*}  {(string | undefined)} The error or undefined, if the checksum is valid.
+ */
+export function validateSdkChecksum(inputs: Inputs): string | undefined {
+  if (inputs.sdkChecksum && !inputs.sdkArchive && inputs.versions.length > 1) {
+    return `"sdk_checksum" can't verify multiple versions (${inputs.versions.join(', ')}). Please use "checksum_manifest" instead.`
+  }
+  return undefined
+}
+
+/**
+ * Check, if the SDK of the target platform can be fetched on this host.
+ *
+ * The Linux archive is extracted and the Windows installer is extracted with 7z on any host.
+ * The MacOS installer must be executed, which requires a MacOS host.
+ *
+ * @export
+ * @param {platform.Target} target - The target platform.
+ * @return {*}  {(string | undefined)} The error or undefined, if the target is supported on this host.
+ */
+export function validateTarget(target: platform.Target): string | undefined {
+  if (target.os === 'mac' && !platform.IS_MAC) {
+    return `"target_platform: mac" requires a MacOS runner, because the MacOS installer must be executed.`
+  }
+  return undefined
+}
+
+/**
+ * Check, if the combination of flags makes sense.
+ *
+ * @export
+ * @param {Inputs} inputs - The inputs of the action.
+ * @return {*}  {string[]} The warnings.
+ */
+export function validateFlagCombinations(inputs: Inputs): string[] {
+  const warnings: string[] = []
+  const targetPlatform = platform.getTargetPlatform(inputs.target)
+  if (inputs.installRuntime && inputs.target.os !== 'windows') {
+    warnings.push(`"install_runtime" is only supported on Windows and is ignored on ${targetPlatform}.`)
+  }
+  if (inputs.runtimeChecksum && !inputs.installRuntime) {
+    warnings.push(`"runtime_checksum" is ignored, because "install_runtime" is not enabled.`)
+  }
+  if (inputs.stripdown && !inputs.useCache) {
+    warnings.push(
+      `"stripdown" is ignored, because "cache" is not enabled. The SDK is only stripped down before caching.`
+    )
+  }
+  if (!inputs.stripdown && (inputs.stripdownInclude.length || inputs.stripdownExclude.length)) {
+    warnings.push(`"stripdown_include" and "stripdown_exclude" are ignored, because "stripdown" is not enabled.`)
+  }
+  if (inputs.sdkArchive && inputs.versions.some(version => version !== 'latest')) {
+    warnings.push(`"vulkan_version" is ignored, because the version is inferred from "sdk_archive".`)
+  }
+  if (inputs.linuxDistribution && !(inputs.target.os === 'linux' && inputs.target.arch === 'arm64')) {
+    warnings.push(`"linux_distribution" is only supported on Linux ARM and is ignored on ${targetPlatform}.`)
+  }
+  if (inputs.sdkArchive && inputs.mirrors.length) {
+    warnings.push(`"mirrors" are ignored, because nothing is downloaded, when installing from "sdk_archive".`)
+  }
+  if (!platform.isHostTarget(inputs.target)) {
+    // the SDK of another platform is only fetched, it can't be executed on this host
+    const ignored = [
+      inputs.vulkanInfo || inputs.requiredExtensions.length ? '"vulkaninfo" and "required_extensions"' : '',
+      inputs.softwareDriver ? '"software_driver"' : '',
+      inputs.useToolCache ? '"tool_cache"' : ''
+    ].filter(Boolean)
+    if (ignored.length) {
+      warnings.push(`The target ${targetPlatform} is not the host, ignoring: ${ignored.join(', ')}.`)
+    }
+    if (inputs.target.os === 'windows' && inputs.optionalComponents.length) {
+      warnings.push(`"optional_components" are ignored, because the Windows installer is extracted, not executed.`)
+    }
+  }
+  return warnings
+}
+
+/**
+ * Report the problems as GitHub annotations.
+ *
+ * @export
+ * @param {ValidationProblems} problems - The problems.
+ * @throws {Error} If there is at least one error.
+ */
+export function reportProblems(problems: ValidationProblems): void {
+  for (const warning of problems.warnings) {
+    core.warning(warning, { title: 'Input validation' })
+  }
+  for (const error of problems.errors) {
+    core.error(error, { title: 'Invalid input' })
+  }
+  if (problems.errors.length) {
+    throw new Error(
+      `❌ The input validation failed with ${problems.errors.length} error(s):\n - ${problems.errors.join('\n - ')}`
+    )
+  }
+}
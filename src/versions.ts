@@ -3,6 +3,133 @@
  *  SPDX-License-Identifier: MIT
  *--------------------------------------------------------------------------------------------*/
 
+/**
+ * A Vulkan SDK version number of the form "major.minor.build.rev", e.g. "1.3.250.1".
+ *
+ * The components are compared numerically, one after another.
+ * The revision may carry an optional suffix, e.g. "1.3.250.1a" or "1.3.250.1-rc1".
+ * A suffixed revision sorts after the plain revision, suffixes are compared naturally.
+ *
+ * @export
+ * @class SdkVersion
+ */
+export class SdkVersion {
+  readonly major: number
+  readonly minor: number
+  readonly build: number
+  readonly revision: number
+  readonly suffix: string
+
+  constructor(major: number, minor: number, build: number, revision: number, suffix = '') {
+    this.major = major
+    this.minor = minor
+    this.build = build
+    this.revision = revision
+    this.suffix = suffix
+  }
+
+  /**
+   * Parse a version number string.
+   *
+   * @static
+   * @param {string} version - The version number string, e.g. "1.3.250.1".
+   * @return {*}  {SdkVersion}
+   * @throws {Error} If the string is not a valid version number.
+   */
+  static parse(version: string): SdkVersion {
+    const sdkVersion = SdkVersion.tryParse(version)
+    if (sdkVersion === null) {
+      throw new Error(`Invalid Vulkan SDK version number: '${version}'. Expected format 'major.minor.build.rev'.`)
+    }
+    return sdkVersion
+  }
+
+  /**
+   * Parse a version number string.
+   *
+   * @static
+   * @param {string} version - The version number string, e.g. "1.3.250.1".
+   * @return {*}  {(SdkVersion | null)} The version or null, if the string is not a valid version number.
+   */
+  static tryParse(version: string): SdkVersion | null {
+    const match = version.trim().match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)([-+_.]?[0-9A-Za-z][0-9A-Za-z.-]*)?$/)
+    if (!match) {
+      return null
+    }
+    const [major, minor, build, revision] = match.slice(1, 5).map(part => Number.parseInt(part))
+    return new SdkVersion(major, minor, build, revision, match[5] ?? '')
+  }
+
+  /**
+   * Compare two versions, e.g. for sorting in ascending order.
+   *
+   * @static
+   * @param {(SdkVersion | string)} a - The first version.
+   * @param {(SdkVersion | string)} b - The second version.
+   * @return {*}  {number} -1, 0 or 1.
+   */
+  static compare(a: SdkVersion | string, b: SdkVersion | string): number {
+    return SdkVersion.from(a).compare(b)
+  }
+
+  /**
+   * Return the version as is, or parse it, if it is a string.
+   *
+   * @static
+   * @param {(SdkVersion | string)} version
+   * @return {*}  {SdkVersion}
+   */
+  static from(version: SdkVersion | string): SdkVersion {
+    return version instanceof SdkVersion ? version : SdkVersion.parse(version)
+  }
+
+  /**
+   * The numeric components [major, minor, build, revision].
+   */
+  get parts(): number[] {
+    return [this.major, this.minor, this.build, this.revision]
+  }
+
+  /**
+   * Compare this version to another version.
+   *
+   * @param {(SdkVersion | string)} other - The other version.
+   * @return {*}  {number} -1 if this version is lower, 1 if it is higher, or 0 if both are equal.
+   */
+  compare(other: SdkVersion | string): number {
+    const otherVersion = SdkVersion.from(other)
+    const otherParts = otherVersion.parts
+    for (const [i, part] of this.parts.entries()) {
+      if (part !== otherParts[i]) {
+        return part < otherParts[i] ? -1 : 1
+      }
+    }
+    if (this.suffix === otherVersion.suffix) {
+      return 0
+    }
+    if (this.suffix === '' || otherVersion.suffix === '') {
+      return this.suffix === '' ? -1 : 1
+    }
+    return Math.sign(this.suffix.localeCompare(otherVersion.suffix, 'en', { numeric: true }))
+  }
+
+  equals(other: SdkVersion | string): boolean {
+    return this.compare(other) === 0
+  }
+
+  isGreaterThan(other: SdkVersion | string): boolean {
+    return this.compare(other) > 0
+  }
+
+  isLessThan(other: SdkVersion | string): boolean {
+    return this.compare(other) < 0
+  }
+
+  toString(): string {
+    return `${this.major}.${this.minor}.${this.build}.${this.revision}${this.suffix}`
+  }
+}
+
 /**
  * Compare two version numbers.
  *
@@ -11,16 +138,202 @@
  * @returns {number} Returns -1 if ver1 is less than ver2, 1 if ver1 is greater than ver2, or 0 if they are equal.
  */
 export function compare(v1: string, v2: string): number {
-  // remove dots and handle strings as integers
-  const intV1 = Number.parseInt(v1.replace(/\./g, ''))
-  const intV2 = Number.parseInt(v2.replace(/\./g, ''))
-
-  // compare the integers
-  if (intV1 < intV2) {
-    return -1
-  } else if (intV1 > intV2) {
-    return 1
-  } else {
-    return 0
+  return SdkVersion.compare(v1, v2)
+}
+
+/**
+ * A single comparator of a version range, e.g. ">=1.3.250" or "1.3.x".
+ *
+ * The version parts are padded to four components ("major.minor.build.rev").
+ * A wildcard comparator ("1.3.x") only fixes the leading `fixed` parts.
+ *
+ * @interface Comparator
+ */
+interface Comparator {
+  operator: '' | '=' | '<' | '<=' | '>' | '>='
+  version: SdkVersion
+  fixed: number
+}
+
+/**
+ * Parse a version range expression into a list of comparator sets.
+ *
+ * Supported syntax:
+ *  - wildcards: "1.3.x", "1.3.*", "1.x"
+ *  - comparators: ">=1.3.250 <1.4", ">1.3.250.1", "<=1.3.296.0", "=1.3.290.0"
+ *  - alternatives: "1.2.x || >=1.3.250"
+ *
+ * Comparators separated by whitespace must all match (AND),
+ * comparator sets separated by "||" are alternatives (OR).
+ *
+ * @param {string} range - The version range expression.
+ * @return {*}  {(Comparator[][] | null)} The comparator sets or null, if the expression is invalid.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = []
+  for (const set of range.split('||')) {
+    const tokens = set.trim().split(/\s+/).filter(Boolean)
+    if (tokens.length === 0) {
+      return null
+    }
+    const comparators: Comparator[] = []
+    for (const token of tokens) {
+      const comparator = parseComparator(token)
+      if (comparator === null) {
+        return null
+      }
+      comparators.push(comparator)
+    }
+    sets.push(comparators)
   }
+  return sets
+}
+
+/**
+ * Parse a single comparator token, e.g. ">=1.3.250" or "1.3.x".
+ *
+ * A token without operator must either be a wildcard or a complete version number.
+ *
+ * @param {string} token - The comparator token.
+ * @return {*}  {(Comparator | null)} The comparator or null, if the token is invalid.
+ */
+function parseComparator(token: string): Comparator | null {
+  const match = token.match(/^(<=|>=|<|>|=)?(\d+|[xX*])(?:\.(\d+|[xX*])){0,3}$/)
+  if (!match) {
+    return null
+  }
+  const operator = (match[1] || '') as Comparator['operator']
+  const items = token.slice(operator.length).split('.')
+
+  const wildcardIndex = items.findIndex(item => /^[xX*]$/.test(item))
+  const fixed = wildcardIndex === -1 ? items.length : wildcardIndex
+  // everything after a wildcard must be a wildcard, too ("1.x.3" is invalid)
+  if (items.slice(fixed).some(item => !/^[xX*]$/.test(item))) {
+    return null
+  }
+  // a bare version without operator and without wildcard must be complete ("1.3" is invalid)
+  if (operator === '' && wildcardIndex === -1 && items.length !== 4) {
+    return null
+  }
+
+  const parts = [0, 0, 0, 0]
+  for (let i = 0; i < fixed; i++) {
+    parts[i] = Number.parseInt(items[i])
+  }
+  const [major, minor, build, revision] = parts
+  return { operator, version: new SdkVersion(major, minor, build, revision), fixed }
+}
+
+/**
+ * Check, if a version matches a comparator.
+ *
+ * @param {SdkVersion} version - The version.
+ * @param {Comparator} comparator - The comparator.
+ * @return {*}  {boolean}
+ */
+function testComparator(version: SdkVersion, comparator: Comparator): boolean {
+  const cmp = version.compare(comparator.version)
+  switch (comparator.operator) {
+    case '':
+    case '=':
+      if (comparator.fixed === 4) {
+        return cmp === 0
+      }
+      return comparator.version.parts.slice(0, comparator.fixed).every((part, i) => part === version.parts[i])
+    case '<':
+      return cmp < 0
+    case '<=':
+      return cmp <= 0
+    case '>':
+      return cmp > 0
+    case '>=':
+      return cmp >= 0
+  }
+}
+
+/**
+ * Check, if a string is a version range expression (and not a plain version number).
+ *
+ * @export
+ * @param {string} range - The string to check, e.g. "1.3.x" or ">=1.3.250 <1.4".
+ * @return {*}  {boolean}
+ */
+export function isRange(range: string): boolean {
+  if (SdkVersion.tryParse(range) !== null) {
+    return false
+  }
+  return parseRange(range) !== null
+}
+
+/**
+ * Check, if a version number satisfies a version range expression.
+ *
+ * @export
+ * @param {string} version - The version number, e.g. "1.3.250.1".
+ * @param {string} range - The version range expression, e.g. "1.3.x".
+ * @return {*}  {boolean}
+ */
+export function satisfies(version: string, range: string): boolean {
+  const sdkVersion = SdkVersion.tryParse(version)
+  const sets = parseRange(range)
+  if (sdkVersion === null || sets === null) {
+    return false
+  }
+  return sets.some(set => set.every(comparator => testComparator(sdkVersion, comparator)))
+}
+
+/**
+ * Find the highest version number in a list, which satisfies a version range expression.
+ *
+ * @export
+ * @param {string[]} versions - The list of version numbers.
+ * @param {string} range - The version range expression.
+ * @return {*}  {(string | undefined)} The highest matching version or undefined, if no version matches.
+ */
+export function maxSatisfying(versions: string[], range: string): string | undefined {
+  const matchingVersions = versions.filter(version => satisfies(version, range))
+  return sort(matchingVersions, 'desc')[0]
+}
+
+/**
+ * Find the versions in a list, which are closest to a version range expression.
+ *
+ * The range is anchored at the version of its first comparator,
+ * and the versions around that anchor are returned (highest first).
+ *
+ * @export
+ * @param {string[]} versions - The list of version numbers.
+ * @param {string} range - The version range expression.
+ * @param {number} [count=5] - The maximum number of versions to return.
+ * @return {*}  {string[]}
+ */
+export function closest(versions: string[], range: string, count = 5): string[] {
+  const sorted = sort(versions, 'desc')
+  const sets = parseRange(range)
+  if (sets === null) {
+    return sorted.slice(0, count)
+  }
+  const anchor = sets[0][0].version
+  let index = sorted.findIndex(version => SdkVersion.compare(version, anchor) <= 0)
+  if (index === -1) {
+    index = sorted.length
+  }
+  const start = Math.max(0, Math.min(index - Math.floor(count / 2), sorted.length - count))
+  return sorted.slice(start, start + count)
+}
+
+/**
+ * Sort a list of version numbers.
+ * Invalid version numbers are dropped.
+ *
+ * @export
+ * @param {string[]} versions - The list of version numbers.
+ * @param {('asc' | 'desc')} [order='asc'] - The sort order.
+ * @return {*}  {string[]}
+ */
+export function sort(versions: string[], order: 'asc' | 'desc' = 'asc'): string[] {
+  const direction = order === 'asc' ? 1 : -1
+  return versions
+    .filter(version => SdkVersion.tryParse(version) !== null)
+    .sort((a, b) => direction * SdkVersion.compare(a, b))
 }
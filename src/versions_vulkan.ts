@@ -4,8 +4,11 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as core from '@actions/core'
+import { spawnSync } from 'node:child_process'
+import * as path from 'node:path'
 import * as http from './http'
 import * as platform from './platform'
+import * as versions from './versions'
 
 // Vulkan SDK Version Query and Download API
 // https://vulkan.lunarg.com/content/view/latest-sdk-version-api
@@ -48,24 +51,25 @@ interface LatestVersionResponse {
  *  "1.3.239.0","1.3.236.0"]
  * ```
  *
- * @interface AvailableVersions
+ * @type AvailableVersions
  */
-interface AvailableVersions {
-  versions: string[]
-}
+type AvailableVersions = string[]
 
 /**
- * Get list of all available versions for this platform.
+ * Get list of all available versions for the target platform.
  *
- * The platform is determined by the platform module.
+ * The platform is determined by the platform module, unless another target is given.
  *
  * @see AvailableVersions
  *
  * @export
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform.
  * @return {*}  {(Promise<AvailableVersions | null>)}
  */
-export const getAvailableVersions = async (): Promise<AvailableVersions | null> => {
-  const platformName = platform.getPlatform()
+export const getAvailableVersions = async (
+  target: platform.Target = platform.HOST_TARGET
+): Promise<AvailableVersions | null> => {
+  const platformName = platform.getTargetPlatform(target)
   const url = `https://vulkan.lunarg.com/sdk/versions/${platformName}.json`
   const response = await http.client.getJson<AvailableVersions>(url)
   if (!response.result) {
@@ -98,44 +102,62 @@ export const getLatestVersions = async (): Promise<LatestVersionResponse | null>
  * @see LatestVersionResponse
  *
  * @param {LatestVersionResponse} latestVersion
+ * @param {platform.Target} target - The target platform.
  * @return {*}  {string}
  */
-function getLatestVersionForPlatform(latestVersion: LatestVersionResponse): string {
-  if (platform.IS_WINDOWS) {
-    return latestVersion.windows
-  }
-  if (platform.IS_WINDOWS_ARM) {
-    return latestVersion.warm
-  }
-  if (platform.IS_LINUX || platform.IS_LINUX_ARM) {
-    return latestVersion.linux
-  }
-  if (platform.IS_MAC) {
-    return latestVersion.mac
+function getLatestVersionForPlatform(latestVersion: LatestVersionResponse, target: platform.Target): string {
+  const platformName = platform.getTargetPlatform(target) as keyof LatestVersionResponse
+  return latestVersion[platformName] ?? ''
+}
+
+/**
+ * Resolve a version range to the highest matching available version.
+ *
+ * @see versions.isRange for the supported range syntax.
+ *
+ * @export
+ * @param {string} range - The version range expression, e.g. "1.3.x" or ">=1.3.250 <1.4".
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform.
+ * @return {*}  {Promise<string>} The highest available version, which satisfies the range.
+ */
+export async function resolveVersionRange(
+  range: string,
+  target: platform.Target = platform.HOST_TARGET
+): Promise<string> {
+  const availableVersions = (await getAvailableVersions(target)) ?? []
+  const version = versions.maxSatisfying(availableVersions, range)
+  if (version === undefined) {
+    const closestVersions = versions.closest(availableVersions, range).join(', ')
+    throw new Error(
+      `No available Vulkan SDK version matches "vulkan_version: ${range}". The closest available versions are: ${closestVersions}.`
+    )
   }
-  return ''
+  core.info(`Resolved version range "${range}" to version: ${version}`)
+  return version
 }
 
 /**
- * Resolve "latest" version
+ * Resolve "latest" version and version ranges
  *
  * This function resolves the string literal "latest" to the latest version number.
  * "latest" might be set by the user or during input validation, when the version field is empty.
  * The version to download is either
  *    a) a manually passed in version (pass-through)
- * or b) the automatically resolved latest version for the platform.
+ * or b) the automatically resolved latest version for the platform
+ * or c) the highest available version matching a version range, e.g. "1.3.x".
  *
  * @export
  * @param {string} version
+ * @param {platform.Target} [target=platform.HOST_TARGET] - The target platform.
  * @return {*}  {Promise<string>}
  */
-export async function resolveVersion(version: string): Promise<string> {
+export async function resolveVersion(version: string, target: platform.Target = platform.HOST_TARGET): Promise<string> {
   let versionToDownload: string = version
   if (version === 'latest') {
     try {
       const latestVersion: LatestVersionResponse | null = await getLatestVersions()
       if (latestVersion !== null) {
-        versionToDownload = getLatestVersionForPlatform(latestVersion)
+        versionToDownload = getLatestVersionForPlatform(latestVersion, target)
         core.info(`Latest Version: ${versionToDownload}`)
       }
     } catch (error) {
@@ -145,6 +167,56 @@ export async function resolveVersion(version: string): Promise<string> {
       }
       core.setFailed(errorMessage)
     }
+  } else if (versions.isRange(version)) {
+    versionToDownload = await resolveVersionRange(version, target)
   }
   return versionToDownload
 }
+
+/**
+ * Infer the version of a local Vulkan SDK archive or installer.
+ *
+ * The version is taken from the file name, e.g. "vulkansdk-linux-x86_64-1.3.250.1.tar.gz",
+ * or from the top-level directory of the archive, e.g. "1.3.250.1/x86_64/bin/vulkaninfo".
+ *
+ * @export
+ * @param {string} file - The path to the archive or installer.
+ * @return {*}  {string} The version.
+ * @throws {Error} If the version cannot be inferred.
+ */
+export function getVersionFromSdkArchive(file: string): string {
+  const filenameVersion = path.basename(file).match(/\d+\.\d+\.\d+\.\d+/)
+  if (filenameVersion) {
+    core.info(`Version of local archive (file name): ${filenameVersion[0]}`)
+    return filenameVersion[0]
+  }
+
+  // list the archive contents and look for a versionized top-level directory
+  if (/\.(tar\.gz|tgz|tar\.xz|zip)$/i.test(file)) {
+    const topLevelDirectories = new Set(listArchive(file).map(entry => entry.split('/')[0]))
+    for (const directory of topLevelDirectories) {
+      if (versions.SdkVersion.tryParse(directory) !== null) {
+        core.info(`Version of local archive (top-level directory): ${directory}`)
+        return directory
+      }
+    }
+  }
+
+  throw new Error(
+    `Unable to infer the Vulkan SDK version of "sdk_archive: ${file}". Please use a file name containing the version, e.g. "vulkansdk-linux-x86_64-1.3.250.1.tar.gz".`
+  )
+}
+
+/**
+ * List the entries of an archive.
+ *
+ * Zip archives are listed with "unzip -Z1", because GNU tar can't read them. Tarballs are listed with "tar -tf".
+ *
+ * @param {string} file - The path to the archive.
+ * @return {*}  {string[]} The paths of the entries, an empty list, if the archive can't be listed.
+ */
+function listArchive(file: string): string[] {
+  const [command, args] = /\.zip$/i.test(file) ? ['unzip', ['-Z1', file]] : ['tar', ['-tf', file]]
+  const listing = spawnSync(command, args, { encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 })
+  return (listing.stdout ?? '').split(/\r?\n/).filter(Boolean)
+}
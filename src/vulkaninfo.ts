@@ -0,0 +1,216 @@
+/*---------------------------------------------------------------------------------------------
+ *  SPDX-FileCopyrightText: 2021-2025 Jens A. Koch
+ *  SPDX-License-Identifier: MIT
+ *--------------------------------------------------------------------------------------------*/
+
+import * as core from '@actions/core'
+import { execFileSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as path from 'node:path'
+import * as platform from './platform'
+
+/**
+ * A physical device reported by vulkaninfo.
+ *
+ * @export
+ * @interface VulkanDevice
+ */
+export interface VulkanDevice {
+  name: string
+  // e.g. "PHYSICAL_DEVICE_TYPE_CPU" or "PHYSICAL_DEVICE_TYPE_DISCRETE_GPU"
+  type: string
+  apiVersion: string
+  driverVersion: string
+}
+
+/**
+ * The structured report of vulkaninfo.
+ *
+ * @export
+ * @interface VulkanInfoReport
+ */
+export interface VulkanInfoReport {
+  instanceVersion: string
+  devices: VulkanDevice[]
+  layers: string[]
+  instanceExtensions: string[]
+  // the extensions of the first device (GPU0)
+  deviceExtensions: string[]
+}
+
+/**
+ * Parse the output of "vulkaninfo --summary".
+ *
+ * The summary contains the instance version, the instance extensions, the layers and the devices,
+ * but not the device extensions, see parseDeviceExtensions().
+ *
+ * @export
+ * @param {string} output - The output of "vulkaninfo --summary".
+ * @return {*}  {VulkanInfoReport}
+ */
+export function parseSummary(output: string): VulkanInfoReport {
+  const report: VulkanInfoReport = {
+    instanceVersion: '',
+    devices: [],
+    layers: [],
+    instanceExtensions: [],
+    deviceExtensions: []
+  }
+  let section = ''
+  let device: VulkanDevice | undefined
+
+  for (const rawLine of output.split(/\r?\n/)) {
+    const line = rawLine.trim()
+    const instanceVersion = line.match(/^Vulkan Instance Version:\s*(\S+)/)
+    if (instanceVersion) {
+      report.instanceVersion = instanceVersion[1]
+      continue
+    }
+    const heading = line.match(/^(Instance Extensions|Instance Layers|Devices)\b/)
+    if (heading) {
+      section = heading[1]
+      continue
+    }
+    if (section === 'Instance Extensions') {
+      const extension = line.match(/^(VK_\w+)\s*:/)
+      if (extension) {
+        report.instanceExtensions.push(extension[1])
+      }
+    } else if (section === 'Instance Layers') {
+      const layer = line.match(/^(VK_LAYER_\w+)/)
+      if (layer) {
+        report.layers.push(layer[1])
+      }
+    } else if (section === 'Devices') {
+      if (/^GPU\d+:$/.test(line)) {
+        device = { name: '', type: '', apiVersion: '', driverVersion: '' }
+        report.devices.push(device)
+        continue
+      }
+      const property = line.match(/^(\w+)\s*=\s*(.*)$/)
+      if (device && property) {
+        const [, key, value] = property
+        if (key === 'deviceName') {
+          device.name = value
+        } else if (key === 'deviceType') {
+          device.type = value
+        } else if (key === 'apiVersion') {
+          // newer versions append the encoded version, e.g. "1.3.246 (4206838)"
+          device.apiVersion = value.split(' ')[0]
+        } else if (key === 'driverVersion') {
+          device.driverVersion = value.split(' ')[0]
+        }
+      }
+    }
+  }
+  return report
+}
+
+/**
+ * Parse the device extensions of the output of "vulkaninfo --json".
+ *
+ * Supported are the profile format of newer versions ("capabilities.device.extensions")
+ * and the format of older versions ("ArrayOfVkExtensionProperties").
+ *
+ * @export
+ * @param {string} json - The output of "vulkaninfo --json".
+ * @return {*}  {string[]} The names of the device extensions.
+ */
+export function parseDeviceExtensions(json: string): string[] {
+  const data = JSON.parse(json)
+  const profileExtensions = data?.capabilities?.device?.extensions
+  if (profileExtensions && typeof profileExtensions === 'object') {
+    return Object.keys(profileExtensions)
+  }
+  const legacyExtensions = data?.ArrayOfVkExtensionProperties
+  if (Array.isArray(legacyExtensions)) {
+    return legacyExtensions.map((extension: { extensionName: string }) => extension.extensionName).filter(Boolean)
+  }
+  return []
+}
+
+/**
+ * Run the vulkaninfo command and parse its output.
+ *
+ * Runs "vulkaninfo --summary" and "vulkaninfo --json" for the device extensions of the first device.
+ * The summary is logged in a collapsible section in the workflow logs.
+ * Failures are reported as warnings, e.g. on runners without GPU and without software driver.
+ *
+ * @export
+ * @param {string} vulkanInfoPath - The path to the "vulkaninfo" executable.
+ * @return {*}  {(VulkanInfoReport | undefined)} The report or undefined, if vulkaninfo failed.
+ */
+export function runVulkanInfo(vulkanInfoPath: string): VulkanInfoReport | undefined {
+  if (!fs.existsSync(vulkanInfoPath)) {
+    core.warning(`vulkaninfo executable not found at path: ${vulkanInfoPath}`)
+    return undefined
+  }
+
+  let report: VulkanInfoReport
+  core.startGroup('Vulkan Info Summary')
+  try {
+    const stdout = execFileSync(vulkanInfoPath, ['--summary'], { encoding: 'utf8', timeout: 60000 })
+    core.info(stdout.trim())
+    report = parseSummary(stdout)
+  } catch (error) {
+    core.warning(`Running vulkaninfo failed: ${(error as Error).message}`)
+    return undefined
+  } finally {
+    core.endGroup()
+  }
+
+  // newer versions write the JSON to the file given by "-o", older versions print it
+  const jsonFile = path.join(platform.TEMP_DIR, 'vulkaninfo.json')
+  try {
+    fs.rmSync(jsonFile, { force: true })
+    const stdout = execFileSync(vulkanInfoPath, ['--json=0', '-o', jsonFile], { encoding: 'utf8', timeout: 60000 })
+    report.deviceExtensions = parseDeviceExtensions(
+      fs.existsSync(jsonFile) ? fs.readFileSync(jsonFile, 'utf8') : stdout
+    )
+  } catch (error) {
+    core.warning(`Reading the device extensions with vulkaninfo failed: ${(error as Error).message}`)
+  }
+
+  core.info(
+    `✔️ [vulkaninfo] Instance version ${report.instanceVersion}, ${report.devices.length} device(s): ${report.devices.map(device => device.name).join(', ')}`
+  )
+  return report
+}
+
+/**
+ * Set the outputs of the vulkaninfo report.
+ *
+ * @export
+ * @param {VulkanInfoReport} report - The vulkaninfo report.
+ */
+export function setVulkanInfoOutputs(report: VulkanInfoReport): void {
+  core.setOutput('vulkaninfo-api-version', report.instanceVersion)
+  core.setOutput('vulkaninfo-devices', JSON.stringify(report.devices))
+  core.setOutput('vulkaninfo-layers', report.layers.join(','))
+  core.setOutput('vulkaninfo-extensions', [...report.instanceExtensions, ...report.deviceExtensions].join(','))
+}
+
+/**
+ * Check, if the required extensions are available as instance or device extensions.
+ *
+ * @export
+ * @param {(VulkanInfoReport | undefined)} report - The vulkaninfo report or undefined, if vulkaninfo failed.
+ * @param {string[]} requiredExtensions - The required extensions, e.g. "VK_KHR_swapchain".
+ * @throws {Error} If a required extension is missing or the extensions couldn't be determined.
+ */
+export function checkRequiredExtensions(report: VulkanInfoReport | undefined, requiredExtensions: string[]): void {
+  if (requiredExtensions.length === 0) {
+    return
+  }
+  if (report === undefined) {
+    throw new Error(
+      `The required extensions (${requiredExtensions.join(', ')}) could not be checked, because vulkaninfo failed.`
+    )
+  }
+  const available = [...report.instanceExtensions, ...report.deviceExtensions]
+  const missing = requiredExtensions.filter(extension => !available.includes(extension))
+  if (missing.length) {
+    throw new Error(`The required extensions are not available on this runner: ${missing.join(', ')}.`)
+  }
+  core.info(`✔️ [vulkaninfo] Required extensions available: ${requiredExtensions.join(', ')}`)
+}
@@ -1,10 +1,37 @@
 //import * as io from '@actions/io'
+import * as actionsCache from '@actions/cache'
 import { HttpClient } from '@actions/http-client'
-import { getPlatform } from '../src/platform'
-//import * as downloader from '../src/downloader'
-//import * as installer_vulkan from '../src/installer_vulkan'
+import {
+  getPlatform,
+  getTargetPlatform,
+  HOST_TARGET,
+  isHostTarget,
+  type OsRelease,
+  parseOsRelease,
+  type Target
+} from '../src/platform'
+import * as downloader from '../src/downloader'
+import * as installerVulkan from '../src/installer_vulkan'
+import * as jobSummary from '../src/job_summary'
+import * as manifest from '../src/manifest'
+import * as cacheVulkan from '../src/cache_vulkan'
+import * as checksum from '../src/checksum'
+import * as cmake from '../src/cmake'
+import * as components from '../src/components'
+import * as http from '../src/http'
 import * as inputs from '../src/inputs'
+import * as setupEnv from '../src/setup_env'
+import * as softwareDriver from '../src/software_driver'
+import * as stripdown from '../src/stripdown'
+import * as toolCache from '../src/toolcache'
+import * as validate from '../src/validate'
+import * as versions from '../src/versions'
 import * as versionsVulkan from '../src/versions_vulkan'
+import * as vulkaninfo from '../src/vulkaninfo'
+import { execSync } from 'child_process'
+import * as fs from 'fs'
+import * as nodeHttp from 'http'
+import type { AddressInfo } from 'net'
 import * as path from 'path'
 import { expect, test } from '@jest/globals'
 import { env } from 'process'
@@ -34,17 +61,799 @@ describe('inputs', () => {
   })*/
   //test('getInputDestination', async () => { })
 
-  test('When optional_components list contains invalid values, it results in an empty components list', async () => {
-    const optional_components = 'a, b, c'
-    const out = inputs.getInputOptionalComponents(optional_components)
-    expect((await out).length).toBe(0)
+  test('The optional_components list is split', () => {
+    expect(inputs.getInputOptionalComponents('a, b,, com.lunarg.vulkan.32bit')).toEqual([
+      'a',
+      'b',
+      'com.lunarg.vulkan.32bit'
+    ])
   })
-  test('The optional_components list is filtered for valid values', async () => {
-    const optional_components = 'a, b, com.lunarg.vulkan.32bit'
-    const out = inputs.getInputOptionalComponents(optional_components)
-    const expected_optional_components = 'com.lunarg.vulkan.32bit'
-    const first_element_of_out_array = (await out).find(Boolean)
-    expect(first_element_of_out_array).toEqual(expected_optional_components)
+})
+
+describe('validate', () => {
+  const validInputs: inputs.Inputs = {
+    version: '1.3.250.1',
+    versions: ['1.3.250.1'],
+    destination: path.join(__dirname, '../tmp/vulkan-sdk'),
+    installRuntime: false,
+    useCache: false,
+    optionalComponents: [],
+    optionalComponentsStrict: false,
+    stripdown: false,
+    stripdownProfile: '',
+    stripdownInclude: [],
+    stripdownExclude: [],
+    mirrors: [],
+    sdkChecksum: '',
+    runtimeChecksum: '',
+    checksumManifest: '',
+    downloadRetries: 3,
+    downloadTimeout: 900,
+    sdkArchive: '',
+    useToolCache: false,
+    softwareDriver: '',
+    softwareDriverArchive: '',
+    vulkanInfo: false,
+    requiredExtensions: [],
+    verifyOnly: false,
+    linuxDistribution: '',
+    target: HOST_TARGET
+  }
+
+  test('getInputVersions splits a list of versions', () => {
+    expect(inputs.getInputVersions('')).toEqual(['latest'])
+    expect(inputs.getInputVersions('1.3.250.1, latest\n1.3.250.1')).toEqual(['1.3.250.1', 'latest'])
+    expect(inputs.getInputVersions('>=1.3.250 <1.4')).toEqual(['>=1.3.250 <1.4'])
+    expect(() => inputs.getInputVersions('1.3.250.1, 1.3')).toThrow('Invalid "vulkan_version: 1.3"')
+  })
+  test('getInputVersion rejects an incomplete version number', () => {
+    expect(() => inputs.getInputVersion('1.3')).toThrow('Invalid "vulkan_version: 1.3"')
+    expect(inputs.getInputVersion('1.3.x')).toEqual('1.3.x')
+  })
+  test('The destination must be an absolute path', () => {
+    expect(validate.validateDestination('vulkan-sdk')).toMatch(/absolute path/)
+    expect(validate.validateDestination(validInputs.destination)).toBeUndefined()
+  })
+  test('Questionable flag combinations are reported as warnings', () => {
+    expect(validate.validateFlagCombinations(validInputs)).toEqual([])
+    const warnings = validate.validateFlagCombinations({ ...validInputs, stripdown: true, stripdownProfile: 'full' })
+    expect(warnings).toEqual([expect.stringMatching(/"stripdown" is ignored/)])
+  })
+  test('Inputs, which execute the SDK, are ignored for another target', () => {
+    const target: Target = HOST_TARGET.os === 'linux' ? { os: 'windows', arch: 'x64' } : { os: 'linux', arch: 'x64' }
+    const warnings = validate.validateFlagCombinations({ ...validInputs, target, useToolCache: true, vulkanInfo: true })
+    expect(warnings).toEqual([expect.stringMatching(/is not the host, ignoring: "vulkaninfo" .*, "tool_cache"/)])
+  })
+  test('The SDK checksum is rejected for multiple versions', () => {
+    const sdkChecksum = 'a'.repeat(64)
+    expect(validate.validateSdkChecksum({ ...validInputs, sdkChecksum })).toBeUndefined()
+    expect(validate.validateSdkChecksum({ ...validInputs, sdkChecksum, versions: ['1.3.250.1', 'latest'] })).toMatch(
+      /Please use "checksum_manifest"/
+    )
+  })
+  test('The software driver requires an archive', () => {
+    expect(validate.validateSoftwareDriver(validInputs)).toBeUndefined()
+    expect(validate.validateSoftwareDriver({ ...validInputs, softwareDriver: 'lavapipe' })).toMatch(
+      /requires "software_driver_archive"/
+    )
+    expect(() => inputs.getInputSoftwareDriver('llvmpipe')).toThrow(/lavapipe, swiftshader/)
+  })
+  test('All errors are reported together', () => {
+    expect(() => validate.reportProblems({ errors: ['first', 'second'], warnings: ['third'] })).toThrow(
+      /failed with 2 error\(s\):\n - first\n - second/
+    )
+    expect(() => validate.reportProblems({ errors: [], warnings: ['third'] })).not.toThrow()
+  })
+})
+
+describe('downloader', () => {
+  test('expandMirrorTemplate replaces the placeholders', () => {
+    const url = downloader.expandMirrorTemplate(
+      'https://mirror.local/{version}/{platform}/{filename}',
+      '1.3.250.1',
+      'a.zip'
+    )
+    expect(url).toEqual(`https://mirror.local/1.3.250.1/${getPlatform()}/a.zip`)
+  })
+  test('expandMirrorTemplate appends the filename to a base URL', () => {
+    const url = downloader.expandMirrorTemplate('https://mirror.local/vulkan/{version}/', '1.3.250.1', 'a.zip')
+    expect(url).toEqual('https://mirror.local/vulkan/1.3.250.1/a.zip')
+  })
+})
+
+describe('cache', () => {
+  const options = {
+    destination: '/vulkan-sdk',
+    optionalComponents: ['b', 'a'],
+    installRuntime: false,
+    stripdown: false,
+    stripdownProfile: '',
+    stripdownInclude: [],
+    stripdownExclude: []
+  }
+
+  test('The cache key hash is stable for reordered optional components', () => {
+    const { cachePrimaryKey } = cacheVulkan.getCacheKeys('1.3.250.1', options)
+    const reordered = cacheVulkan.getCacheKeys('1.3.250.1', { ...options, optionalComponents: ['a', 'b'] })
+    expect(cachePrimaryKey).toMatch(/-vulkan-sdk-1\.3\.250\.1-[0-9a-f]{12}$/)
+    expect(reordered.cachePrimaryKey).toEqual(cachePrimaryKey)
+  })
+  test('The cache key hash changes with the installation options', () => {
+    const hash = cacheVulkan.getCacheKeyHash(options)
+    expect(cacheVulkan.getCacheKeyHash({ ...options, optionalComponents: ['a'] })).not.toEqual(hash)
+    expect(cacheVulkan.getCacheKeyHash({ ...options, installRuntime: true })).not.toEqual(hash)
+    const stripped = { ...options, stripdown: true, stripdownProfile: 'full' }
+    expect(cacheVulkan.getCacheKeyHash(stripped)).not.toEqual(hash)
+    expect(cacheVulkan.getCacheKeyHash({ ...stripped, stripdownProfile: 'compiler-tools' })).not.toEqual(
+      cacheVulkan.getCacheKeyHash(stripped)
+    )
+  })
+  test('The cache hit is exact or none', () => {
+    expect(cacheVulkan.getCacheHit('key-a', 'key-a')).toEqual('exact')
+    expect(cacheVulkan.getCacheHit('key-a', 'key-b')).toEqual('none')
+    expect(cacheVulkan.getCacheHit('key-a', undefined)).toEqual('none')
+  })
+  test('A cache restored by another key than the primary key is discarded', async () => {
+    const destination = path.join(__dirname, '../tmp/cache-restore-key')
+    fs.rmSync(destination, { recursive: true, force: true })
+    const vulkanInfo = installerVulkan.getVulkanInfoPath(installerVulkan.getVulkanSdkPath(destination, '1.3.250.1'))
+    fs.mkdirSync(path.dirname(vulkanInfo), { recursive: true })
+    fs.writeFileSync(vulkanInfo, '')
+    jest.spyOn(actionsCache, 'restoreCache').mockResolvedValue('cache-linux-x64-vulkan-sdk-1.3.250.1-0123456789ab')
+
+    const restoredKey = await cacheVulkan.restoreVulkanSdk('1.3.250.1', destination, 'primary', ['cache-linux-x64-'])
+
+    expect(restoredKey).toBeUndefined()
+    expect(fs.existsSync(path.join(destination, '1.3.250.1'))).toBeFalsy()
+  })
+  test('There is no restore key', () => {
+    const { cacheRestoreKeys } = cacheVulkan.getCacheKeys('1.3.250.1', options)
+    expect(cacheRestoreKeys).toEqual([])
+  })
+  test('A cache saved with different installation options is not restored', async () => {
+    const destination = path.join(__dirname, '../tmp/cache-restore-options')
+    fs.rmSync(destination, { recursive: true, force: true })
+    const savedKey = cacheVulkan.getCacheKeys('1.3.250.1', options).cachePrimaryKey
+    // like actions/cache: the primary key matches exactly, the restore keys match as prefix
+    const restoreCache = jest
+      .spyOn(actionsCache, 'restoreCache')
+      .mockImplementation(async (_paths: string[], primaryKey: string, restoreKeys?: string[]) =>
+        primaryKey === savedKey || (restoreKeys ?? []).some(key => savedKey.startsWith(key)) ? savedKey : undefined
+      )
+
+    const { cachePrimaryKey, cacheRestoreKeys } = cacheVulkan.getCacheKeys('1.3.250.1', {
+      ...options,
+      installRuntime: true
+    })
+    const restoredKey = await cacheVulkan.restoreVulkanSdk('1.3.250.1', destination, cachePrimaryKey, cacheRestoreKeys)
+
+    expect(restoreCache).toHaveBeenCalled()
+    expect(restoredKey).toBeUndefined()
+    expect(cacheVulkan.getCacheHit(cachePrimaryKey, restoredKey)).toEqual('none')
+  })
+  test('A restored cache, which fails the installation verification, is discarded', async () => {
+    const destination = path.join(__dirname, '../tmp/cache-restore')
+    fs.rmSync(destination, { recursive: true, force: true })
+    fs.mkdirSync(path.join(destination, '1.3.250.1'), { recursive: true })
+    jest.spyOn(actionsCache, 'restoreCache').mockResolvedValue('cache-linux-x64-vulkan-sdk-1.3.250.1-0123456789ab')
+
+    const restoredKey = await cacheVulkan.restoreVulkanSdk('1.3.250.1', destination, 'primary', [])
+
+    expect(restoredKey).toBeUndefined()
+    expect(fs.existsSync(path.join(destination, '1.3.250.1'))).toBeFalsy()
+  })
+  test('A partially restored cache, which fails the manifest verification, is discarded', async () => {
+    const destination = path.join(__dirname, '../tmp/cache-restore-manifest')
+    fs.rmSync(destination, { recursive: true, force: true })
+    const vulkanInfo = installerVulkan.getVulkanInfoPath(installerVulkan.getVulkanSdkPath(destination, '1.3.250.1'))
+    fs.mkdirSync(path.dirname(vulkanInfo), { recursive: true })
+    fs.writeFileSync(vulkanInfo, '')
+    fs.writeFileSync(path.join(destination, '1.3.250.1/setup-env.sh'), '')
+    await manifest.writeManifest(path.join(destination, '1.3.250.1'), '1.3.250.1')
+    fs.rmSync(path.join(destination, '1.3.250.1/setup-env.sh'))
+    jest.spyOn(actionsCache, 'restoreCache').mockResolvedValue('cache-linux-x64-vulkan-sdk-1.3.250.1-0123456789ab')
+
+    const restoredKey = await cacheVulkan.restoreVulkanSdk('1.3.250.1', destination, 'primary', [])
+
+    expect(restoredKey).toBeUndefined()
+    expect(fs.existsSync(path.join(destination, '1.3.250.1'))).toBeFalsy()
+  })
+  test('The post step skips saving the cache on an exact primary key hit', async () => {
+    // core.getState() reads the state from STATE_ environment variables
+    env['STATE_cache-states'] = JSON.stringify([{ primaryKey: 'primary', path: __dirname, restoredKey: 'primary' }])
+    const saveCache = jest.spyOn(actionsCache, 'saveCache').mockResolvedValue(1)
+
+    await cacheVulkan.saveVulkanSdk()
+    expect(saveCache).not.toHaveBeenCalled()
+
+    env['STATE_cache-states'] = JSON.stringify([{ primaryKey: 'primary', path: __dirname, restoredKey: '' }])
+    await cacheVulkan.saveVulkanSdk()
+    expect(saveCache).toHaveBeenCalledWith([__dirname], 'primary')
+  })
+  test('The post step saves the cache of each installed version', async () => {
+    env['STATE_cache-states'] = JSON.stringify([
+      { primaryKey: 'key-1.3.250.1', path: path.join(__dirname, '..'), restoredKey: 'key-1.3.250.1' },
+      { primaryKey: 'key-1.4.304.0', path: __dirname, restoredKey: '' }
+    ])
+    const saveCache = jest.spyOn(actionsCache, 'saveCache').mockClear().mockResolvedValue(1)
+
+    await cacheVulkan.saveVulkanSdk()
+    expect(saveCache).toHaveBeenCalledTimes(1)
+    expect(saveCache).toHaveBeenCalledWith([__dirname], 'key-1.4.304.0')
+    delete env['STATE_cache-states']
+  })
+  test('The versionized installation folder is cached', () => {
+    expect(cacheVulkan.getCachePath('1.3.250.1', '/vulkan-sdk')).toEqual(path.normalize('/vulkan-sdk/1.3.250.1'))
+  })
+})
+
+describe('stripdown', () => {
+  const sdkPath = path.join(__dirname, '../tmp/stripdown/1.3.250.1')
+  const files = [
+    'setup-env.sh',
+    'README.txt',
+    'x86_64/bin/vulkaninfo',
+    'x86_64/bin/glslc',
+    'x86_64/bin/vkcube',
+    'x86_64/include/vulkan/vulkan.h',
+    'x86_64/include/glm/glm.hpp',
+    'x86_64/lib/libvulkan.so.1',
+    'x86_64/lib/libshaderc_combined.a',
+    'x86_64/share/doc/index.html',
+    'x86_64/examples/main.cpp'
+  ]
+  const remaining = (): string[] => files.filter(file => fs.existsSync(path.join(sdkPath, file)))
+
+  beforeEach(() => {
+    fs.rmSync(sdkPath, { recursive: true, force: true })
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(path.join(sdkPath, file)), { recursive: true })
+      fs.writeFileSync(path.join(sdkPath, file), 'x'.repeat(10))
+    }
+  })
+
+  test('Glob patterns', () => {
+    expect(stripdown.matchesAny('x86_64/lib/libfoo.a', ['*.a'])).toBe(true)
+    expect(stripdown.matchesAny('x86_64/Lib/libfoo.a', ['**/lib/*.a'])).toBe(true)
+    expect(stripdown.matchesAny('x86_64/lib/libfoo.a', ['/lib/*.a'])).toBe(false)
+    expect(stripdown.matchesAny('Demos/a/b.exe', ['/Demos/**'])).toBe(true)
+    expect(stripdown.matchesAny('Bin/maintenancetool.exe', ['/*'])).toBe(false)
+  })
+  test('The full profile removes docs and samples', () => {
+    const result = stripdown.stripdown(sdkPath, 'full')
+    expect(remaining()).not.toContain('x86_64/share/doc/index.html')
+    expect(remaining()).not.toContain('x86_64/examples/main.cpp')
+    expect(remaining()).toContain('x86_64/lib/libshaderc_combined.a')
+    expect(result).toEqual({ profile: 'full', files: 2, bytes: 20 })
+    expect(fs.existsSync(path.join(sdkPath, 'x86_64/examples'))).toBe(false)
+  })
+  test('The stripdown keeps folders, which were empty before', () => {
+    fs.mkdirSync(path.join(sdkPath, 'x86_64/etc/vulkan/explicit_layer.d'), { recursive: true })
+    stripdown.stripdown(sdkPath, 'full')
+    expect(fs.existsSync(path.join(sdkPath, 'x86_64/etc/vulkan/explicit_layer.d'))).toBe(true)
+  })
+  test('The installer leftovers are chosen by the target', () => {
+    stripdown.stripdown(sdkPath, 'full', [], [], { os: 'linux', arch: 'x64' })
+    expect(remaining()).toContain('README.txt')
+    stripdown.stripdown(sdkPath, 'full', [], [], { os: 'windows', arch: 'x64' })
+    expect(remaining()).not.toContain('README.txt')
+    expect(remaining()).not.toContain('setup-env.sh')
+    expect(remaining()).toContain('x86_64/bin/vulkaninfo')
+  })
+  test('The minimal-headers-loader profile keeps only headers, loader and essentials', () => {
+    stripdown.stripdown(sdkPath, 'minimal-headers-loader')
+    expect(remaining()).toEqual([
+      'setup-env.sh',
+      'x86_64/bin/vulkaninfo',
+      'x86_64/include/vulkan/vulkan.h',
+      'x86_64/lib/libvulkan.so.1'
+    ])
+  })
+  test('Include globs take precedence over exclude globs and the profile', () => {
+    stripdown.stripdown(sdkPath, 'compiler-tools', ['**/bin/vkcube'], ['glslc', 'vkcube'])
+    expect(remaining()).toContain('x86_64/bin/vkcube')
+    expect(remaining()).not.toContain('x86_64/bin/glslc')
+    expect(remaining()).not.toContain('x86_64/lib/libshaderc_combined.a')
+    expect(remaining()).toContain('x86_64/include/glm/glm.hpp')
+  })
+  test('The stripdown input accepts a boolean or a profile name', () => {
+    expect(inputs.getInputStripdown('true')).toEqual({ stripdown: true, stripdownProfile: 'full' })
+    expect(inputs.getInputStripdown('')).toEqual({ stripdown: false, stripdownProfile: '' })
+    expect(inputs.getInputStripdown('compiler-tools')).toEqual({ stripdown: true, stripdownProfile: 'compiler-tools' })
+    expect(() => inputs.getInputStripdown('tiny')).toThrow(/minimal-headers-loader/)
+  })
+})
+
+describe('components', () => {
+  test('When optional_components list contains invalid values, it results in an empty components list', () => {
+    expect(components.resolveOptionalComponents(['a', 'b', 'c'], '1.3.250.1', false, 'windows')).toEqual([])
+  })
+  test('The optional_components list is filtered for the version and platform', () => {
+    const requested = ['a', 'com.lunarg.vulkan.32bit', 'com.lunarg.vulkan.vma', 'com.lunarg.vulkan.debug']
+    expect(components.resolveOptionalComponents(requested, '1.3.250.1', false, 'windows')).toEqual([
+      'com.lunarg.vulkan.32bit',
+      'com.lunarg.vulkan.vma'
+    ])
+    expect(components.resolveOptionalComponents(requested, '1.3.250.1', false, 'mac')).toEqual([
+      'com.lunarg.vulkan.vma'
+    ])
+    expect(components.resolveOptionalComponents(requested, '1.2.198.1', false, 'windows')).toEqual([
+      'com.lunarg.vulkan.32bit'
+    ])
+  })
+  test('In strict mode, a misspelled component fails with a suggestion', () => {
+    expect(() => components.resolveOptionalComponents(['com.lunarg.vulkan.volc'], '1.3.250.1', true, 'linux')).toThrow(
+      "Did you mean 'com.lunarg.vulkan.volk'?"
+    )
+    expect(components.suggestComponent('sdl2')).toEqual('com.lunarg.vulkan.sdl2')
+    expect(components.suggestComponent('something-else')).toBeUndefined()
+  })
+  test('Linux components, which were not requested, are removed', () => {
+    const sdkPath = path.join(__dirname, '../tmp/components/1.3.250.1')
+    const files = [
+      'x86_64/include/vulkan/vulkan.h',
+      'x86_64/include/glm/glm.hpp',
+      'x86_64/include/volk.h',
+      'x86_64/lib/libvolk.a',
+      'x86_64/include/SDL2/SDL.h',
+      'x86_64/bin/sdl2-config'
+    ]
+    fs.rmSync(sdkPath, { recursive: true, force: true })
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(path.join(sdkPath, file)), { recursive: true })
+      fs.writeFileSync(path.join(sdkPath, file), '')
+    }
+    const result = components.pruneLinuxComponents(sdkPath, ['com.lunarg.vulkan.volk'])
+    expect(files.filter(file => fs.existsSync(path.join(sdkPath, file)))).toEqual([
+      'x86_64/include/vulkan/vulkan.h',
+      'x86_64/include/volk.h',
+      'x86_64/lib/libvolk.a'
+    ])
+    expect(result.files).toEqual(3)
+  })
+})
+
+describe('setup-env', () => {
+  const testOnLinux = process.platform === 'linux' ? test : test.skip
+  const script = [
+    '# source this file into an existing shell.',
+    '',
+    'VULKAN_SDK="$(dirname "$(readlink -f "${BASH_SOURCE:-$_}" )")/x86_64"',
+    'export VULKAN_SDK',
+    'PATH="$VULKAN_SDK/bin:$PATH"',
+    'export PATH',
+    'LD_LIBRARY_PATH="$VULKAN_SDK/lib${LD_LIBRARY_PATH:+:$LD_LIBRARY_PATH}"',
+    'export LD_LIBRARY_PATH',
+    'export VK_ADD_LAYER_PATH="$VULKAN_SDK/share/vulkan/explicit_layer.d"',
+    'PKG_CONFIG_PATH="$VULKAN_SDK/share/pkgconfig:$VULKAN_SDK/lib/pkgconfig${PKG_CONFIG_PATH:+:$PKG_CONFIG_PATH}"',
+    'export PKG_CONFIG_PATH',
+    'if [ -n "${VK_LAYER_PATH}" ]; then',
+    '  export VK_LAYER_PATH="$VULKAN_SDK/etc/vulkan/explicit_layer.d:$VK_LAYER_PATH"',
+    'fi'
+  ].join('\n')
+
+  test('The exports of setup-env.sh are parsed', () => {
+    const sdk = '/sdk/1.3.250.1/x86_64'
+    const setup = setupEnv.parseSetupEnv(script, '/sdk/1.3.250.1', { PATH: '/usr/bin', PKG_CONFIG_PATH: '/usr/pc' })
+    expect(setup.paths).toEqual([`${sdk}/bin`])
+    expect(setup.variables).toEqual({
+      VULKAN_SDK: sdk,
+      LD_LIBRARY_PATH: `${sdk}/lib`,
+      VK_ADD_LAYER_PATH: `${sdk}/share/vulkan/explicit_layer.d`,
+      PKG_CONFIG_PATH: `${sdk}/share/pkgconfig:${sdk}/lib/pkgconfig:/usr/pc`
+    })
+  })
+  test('The environment is written as sh, ps1 and dotenv scripts', () => {
+    const folder = path.join(__dirname, '../tmp/env-scripts')
+    const setup = { variables: { VULKAN_SDK: '/sdk/x86_64', QUOTED: `it's "$x"` }, paths: ['/sdk/x86_64/bin'] }
+    const scripts = setupEnv.writeEnvironmentScripts(setup, folder)
+    const sh = fs.readFileSync(scripts.sh, 'utf8')
+    expect(sh).toContain('export PATH="/sdk/x86_64/bin${PATH:+:$PATH}"')
+    expect(sh).toContain('export QUOTED="it\'s \\"\\$x\\""')
+    expect(fs.readFileSync(scripts.ps1, 'utf8')).toContain(`$env:QUOTED = 'it''s "$x"'`)
+    expect(fs.readFileSync(scripts.dotenv, 'utf8')).toContain('VULKAN_SDK=/sdk/x86_64\n')
+    expect(fs.readFileSync(scripts.dotenv, 'utf8')).not.toContain('PATH=')
+  })
+  testOnLinux('The default environment setup has no trailing colon in LD_LIBRARY_PATH', () => {
+    const setup = setupEnv.getDefaultEnvironmentSetup('/sdk/x86_64', {})
+    expect(setup.variables.LD_LIBRARY_PATH).toEqual('/sdk/x86_64/lib')
+  })
+  test('Unsupported command substitutions are skipped', () => {
+    const setup = setupEnv.parseSetupEnv('export FOO="$(uname -m)"\nexport BAR=bar', '/sdk', {})
+    expect(setup.variables).toEqual({ BAR: 'bar' })
+  })
+})
+
+describe('cmake', () => {
+  test('The CMake file sets Vulkan_ROOT and the hints of existing files', () => {
+    const sdkPath = path.join(__dirname, '../tmp/cmake/1.3.250.1/x86_64')
+    fs.rmSync(sdkPath, { recursive: true, force: true })
+    fs.mkdirSync(path.join(sdkPath, 'bin'), { recursive: true })
+    fs.writeFileSync(path.join(sdkPath, 'bin/glslc'), '')
+    const file = cmake.writeCmakeFile(sdkPath, '1.3.250.1', path.dirname(sdkPath))
+    const content = fs.readFileSync(file, 'utf8')
+    const root = sdkPath.replace(/\\/g, '/')
+    expect(content).toContain(`set(Vulkan_ROOT "${root}" CACHE PATH "Vulkan SDK root folder")`)
+    expect(content).toContain(`set(Vulkan_GLSLC_EXECUTABLE "${root}/bin/glslc" CACHE FILEPATH "")`)
+    expect(content).not.toContain('Vulkan_GLSLANG_VALIDATOR_EXECUTABLE')
+  })
+  test('The SDK is prepended to CMAKE_PREFIX_PATH', () => {
+    expect(cmake.getCmakePrefixPath('/sdk', ['/a', '/sdk'].join(path.delimiter))).toEqual(
+      ['/sdk', '/a'].join(path.delimiter)
+    )
+    expect(cmake.getCmakePrefixPath('/sdk', '')).toEqual('/sdk')
+  })
+})
+
+describe('software driver', () => {
+  const testOnLinux = process.platform === 'linux' ? test : test.skip
+
+  testOnLinux('A software driver is installed from a local archive and gets an ICD JSON', async () => {
+    const tmpDir = path.join(__dirname, '../tmp/software-driver')
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    fs.mkdirSync(path.join(tmpDir, 'archive/lib'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'archive/lib/libvulkan_lvp.so'), '')
+    execSync(`tar -czf ${path.join(tmpDir, 'lavapipe.tar.gz')} -C ${path.join(tmpDir, 'archive')} lib`)
+
+    const driver = await softwareDriver.installSoftwareDriver(
+      'lavapipe',
+      path.join(tmpDir, 'lavapipe.tar.gz'),
+      { retries: 0, timeout: 1000 },
+      '1.3.250.1',
+      path.join(tmpDir, 'installed')
+    )
+    expect(driver.library).toEqual(path.join(tmpDir, 'installed/lib/libvulkan_lvp.so'))
+    const icd = JSON.parse(fs.readFileSync(driver.icdFile, 'utf8'))
+    expect(icd.ICD.library_path).toEqual(driver.library)
+    // without a shipped ICD JSON, the API version of the SDK is used
+    expect(icd.ICD.api_version).toEqual('1.3.250')
+  })
+  testOnLinux('The API version is taken from the ICD JSON shipped in the archive', async () => {
+    const tmpDir = path.join(__dirname, '../tmp/software-driver-icd')
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    fs.mkdirSync(path.join(tmpDir, 'archive/share/vulkan/icd.d'), { recursive: true })
+    fs.mkdirSync(path.join(tmpDir, 'archive/lib'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'archive/lib/libvulkan_lvp.so'), '')
+    fs.writeFileSync(
+      path.join(tmpDir, 'archive/share/vulkan/icd.d/lvp_icd.x86_64.json'),
+      `${JSON.stringify(
+        { file_format_version: '1.0.1', ICD: { library_path: 'libvulkan_lvp.so', api_version: '1.4.303' } },
+        null,
+        2
+      )}\n`
+    )
+    execSync(`tar -czf ${path.join(tmpDir, 'lavapipe.tar.gz')} -C ${path.join(tmpDir, 'archive')} lib share`)
+
+    const driver = await softwareDriver.installSoftwareDriver(
+      'lavapipe',
+      path.join(tmpDir, 'lavapipe.tar.gz'),
+      { retries: 0, timeout: 1000 },
+      '1.3.250.1',
+      path.join(tmpDir, 'installed')
+    )
+    const icd = JSON.parse(fs.readFileSync(driver.icdFile, 'utf8'))
+    expect(icd).toEqual({
+      file_format_version: '1.0.1',
+      ICD: { library_path: driver.library, api_version: '1.4.303' }
+    })
+  })
+  testOnLinux('An invalid shipped ICD JSON falls back to the API version of the SDK', async () => {
+    const tmpDir = path.join(__dirname, '../tmp/software-driver-invalid-icd')
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    fs.mkdirSync(path.join(tmpDir, 'archive/lib'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'archive/lib/libvulkan_lvp.so'), '')
+    fs.writeFileSync(path.join(tmpDir, 'archive/lib/lvp_icd.x86_64.json'), '["not", "an", "icd"]\n')
+    execSync(`tar -czf ${path.join(tmpDir, 'lavapipe.tar.gz')} -C ${path.join(tmpDir, 'archive')} lib`)
+
+    const driver = await softwareDriver.installSoftwareDriver(
+      'lavapipe',
+      path.join(tmpDir, 'lavapipe.tar.gz'),
+      { retries: 0, timeout: 1000 },
+      '1.3.250.1',
+      path.join(tmpDir, 'installed')
+    )
+    const icd = JSON.parse(fs.readFileSync(driver.icdFile, 'utf8'))
+    expect(icd.ICD.api_version).toEqual('1.3.250')
+  })
+})
+
+describe('vulkaninfo', () => {
+  const summary = [
+    '==========',
+    'VULKANINFO',
+    '==========',
+    '',
+    'Vulkan Instance Version: 1.3.250',
+    '',
+    'Instance Extensions: count = 2',
+    '-------------------------------',
+    'VK_EXT_debug_utils                     : extension revision 2',
+    'VK_KHR_surface                         : extension revision 25',
+    '',
+    'Instance Layers: count = 1',
+    '--------------------------',
+    'VK_LAYER_KHRONOS_validation Khronos Validation Layer 1.3.250 version 1',
+    '',
+    'Devices:',
+    '========',
+    'GPU0:',
+    '\tapiVersion         = 1.3.246 (4206838)',
+    '\tdriverVersion      = 23.1.0',
+    '\tdeviceType         = PHYSICAL_DEVICE_TYPE_CPU',
+    '\tdeviceName         = llvmpipe (LLVM 15.0.7, 256 bits)'
+  ].join('\n')
+
+  test('parseSummary reads the instance version, extensions, layers and devices', () => {
+    const report = vulkaninfo.parseSummary(summary)
+    expect(report.instanceVersion).toEqual('1.3.250')
+    expect(report.instanceExtensions).toEqual(['VK_EXT_debug_utils', 'VK_KHR_surface'])
+    expect(report.layers).toEqual(['VK_LAYER_KHRONOS_validation'])
+    expect(report.devices).toEqual([
+      {
+        name: 'llvmpipe (LLVM 15.0.7, 256 bits)',
+        type: 'PHYSICAL_DEVICE_TYPE_CPU',
+        apiVersion: '1.3.246',
+        driverVersion: '23.1.0'
+      }
+    ])
+  })
+  test('parseDeviceExtensions reads the profile and the legacy JSON format', () => {
+    const profile = { capabilities: { device: { extensions: { VK_KHR_swapchain: 70 } } } }
+    expect(vulkaninfo.parseDeviceExtensions(JSON.stringify(profile))).toEqual(['VK_KHR_swapchain'])
+    const legacy = { ArrayOfVkExtensionProperties: [{ extensionName: 'VK_KHR_maintenance1', specVersion: 2 }] }
+    expect(vulkaninfo.parseDeviceExtensions(JSON.stringify(legacy))).toEqual(['VK_KHR_maintenance1'])
+  })
+  test('checkRequiredExtensions fails on missing extensions', () => {
+    const report = { ...vulkaninfo.parseSummary(summary), deviceExtensions: ['VK_KHR_swapchain'] }
+    expect(() => vulkaninfo.checkRequiredExtensions(report, ['VK_KHR_surface', 'VK_KHR_swapchain'])).not.toThrow()
+    expect(() => vulkaninfo.checkRequiredExtensions(report, ['VK_KHR_ray_query'])).toThrow('VK_KHR_ray_query')
+    expect(() => vulkaninfo.checkRequiredExtensions(undefined, ['VK_KHR_surface'])).toThrow('vulkaninfo failed')
+    expect(() => vulkaninfo.checkRequiredExtensions(undefined, [])).not.toThrow()
+  })
+  test('getInputRequiredExtensions rejects invalid extension names', () => {
+    expect(inputs.getInputRequiredExtensions('VK_KHR_swapchain,\n VK_EXT_mesh_shader')).toEqual([
+      'VK_KHR_swapchain',
+      'VK_EXT_mesh_shader'
+    ])
+    expect(() => inputs.getInputRequiredExtensions('swapchain')).toThrow('Invalid "required_extensions": swapchain')
+  })
+})
+
+describe('job summary', () => {
+  test('getVersionSource distinguishes pinned, latest, range and archive', () => {
+    expect(jobSummary.getVersionSource('1.3.250.1', '')).toEqual('pinned')
+    expect(jobSummary.getVersionSource('latest', '')).toEqual('latest')
+    expect(jobSummary.getVersionSource('1.3.x', '')).toEqual('range')
+    expect(jobSummary.getVersionSource('latest', '/tmp/vulkansdk-linux-x86_64-1.3.250.1.tar.gz')).toEqual('archive')
+  })
+  test('measure records the phase, also if the phase fails', async () => {
+    const phases: jobSummary.Phase[] = []
+    expect(await jobSummary.measure(phases, 'Install', () => 42)).toEqual(42)
+    await expect(jobSummary.measure(phases, 'Download', () => Promise.reject(new Error('offline')))).rejects.toThrow(
+      'offline'
+    )
+    expect(phases.map(phase => phase.name)).toEqual(['Install', 'Download'])
+  })
+  test('The install report is written to the job summary', async () => {
+    const summaryFile = path.join(__dirname, '../tmp/job-summary.md')
+    fs.mkdirSync(path.dirname(summaryFile), { recursive: true })
+    fs.writeFileSync(summaryFile, '')
+    process.env.GITHUB_STEP_SUMMARY = summaryFile
+    try {
+      await jobSummary.writeJobSummary({
+        version: '1.3.250.1',
+        versionSource: 'range',
+        downloadUrl: 'https://sdk.lunarg.com/sdk/download/1.3.250.1/linux/vulkansdk-linux-x86_64-1.3.250.1.tar.gz',
+        downloadSize: 250 * 1024 * 1024,
+        cacheHit: 'none',
+        installPath: '/home/runner/vulkan-sdk/1.3.250.1',
+        components: ['com.lunarg.vulkan.volk'],
+        phases: [{ name: 'Download', milliseconds: 12345 }],
+        environment: { VULKAN_SDK: '/home/runner/vulkan-sdk/1.3.250.1/x86_64' }
+      })
+    } finally {
+      delete process.env.GITHUB_STEP_SUMMARY
+    }
+    const content = fs.readFileSync(summaryFile, 'utf8')
+    expect(content).toContain('1.3.250.1 (range)')
+    expect(content).toContain('(250.0 MB)')
+    expect(content).toContain('<td>Download</td><td>12.3s</td>')
+    expect(content).toContain('VULKAN_SDK=/home/runner/vulkan-sdk/1.3.250.1/x86_64')
+  })
+})
+
+describe('manifest', () => {
+  const sdkPath = path.join(__dirname, '../tmp/manifest/1.3.250.1')
+
+  beforeEach(() => {
+    fs.rmSync(sdkPath, { recursive: true, force: true })
+    fs.mkdirSync(path.join(sdkPath, 'x86_64/bin'), { recursive: true })
+    fs.writeFileSync(path.join(sdkPath, 'setup-env.sh'), 'export VULKAN_SDK=x86_64\n')
+    fs.writeFileSync(path.join(sdkPath, 'x86_64/bin/glslc'), 'glslc')
+    fs.writeFileSync(path.join(sdkPath, 'x86_64/bin/vulkaninfo'), 'vulkaninfo')
+  })
+
+  test('The manifest lists every installed file with size and hash', async () => {
+    const file = await manifest.writeManifest(sdkPath, '1.3.250.1')
+    const written = manifest.readManifest(sdkPath)
+    expect(file).toEqual(path.join(sdkPath, manifest.MANIFEST_FILENAME))
+    expect(Object.keys(written?.files ?? {})).toEqual(['setup-env.sh', 'x86_64/bin/glslc', 'x86_64/bin/vulkaninfo'])
+    expect(written?.files['x86_64/bin/glslc']).toEqual({
+      size: 5,
+      sha256: await checksum.computeSha256(path.join(sdkPath, 'x86_64/bin/glslc'))
+    })
+    expect(await manifest.verifyInstallation(sdkPath)).toEqual({ missing: [], changed: [] })
+  })
+  test('The verification reports missing and changed files', async () => {
+    await manifest.writeManifest(sdkPath, '1.3.250.1')
+    fs.rmSync(path.join(sdkPath, 'x86_64/bin/glslc'))
+    fs.writeFileSync(path.join(sdkPath, 'x86_64/bin/vulkaninfo'), 'VULKANINFO')
+    fs.writeFileSync(path.join(sdkPath, 'vulkan-env.sh'), '')
+
+    const verification = await manifest.verifyInstallation(sdkPath)
+    expect(verification).toEqual({ missing: ['x86_64/bin/glslc'], changed: ['x86_64/bin/vulkaninfo'] })
+    expect(manifest.describeProblems(verification ?? { missing: [], changed: [] })).toEqual(
+      '1 file missing (x86_64/bin/glslc), 1 file changed (x86_64/bin/vulkaninfo)'
+    )
+  })
+  test('An installation without manifest is not verified', async () => {
+    expect(await manifest.verifyInstallation(sdkPath)).toBeUndefined()
+  })
+})
+
+describe('checksum', () => {
+  const sha256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+
+  test('parseChecksumFile finds the entry for the filename', () => {
+    const manifest = `${'0'.repeat(64)}  other.zip\n${sha256} *vulkansdk-linux-x86_64-1.3.250.1.tar.gz\n`
+    expect(checksum.parseChecksumFile(manifest, 'vulkansdk-linux-x86_64-1.3.250.1.tar.gz')).toEqual(sha256)
+    expect(checksum.parseChecksumFile(manifest, 'missing.zip')).toBeUndefined()
+  })
+  test('parseChecksumFile accepts a sidecar file with a single checksum', () => {
+    expect(checksum.parseChecksumFile(`${sha256.toUpperCase()}\n`, 'a.zip')).toEqual(sha256)
+  })
+  test('computeSha256 hashes a file', async () => {
+    const file = path.join(__dirname, '../tmp/empty.txt')
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, '')
+    expect(await checksum.computeSha256(file)).toEqual(sha256)
+  })
+})
+
+describe('http', () => {
+  test('downloadFile resumes an interrupted download with a range request', async () => {
+    const content = 'vulkan-sdk-archive-content'
+    const ranges: (string | undefined)[] = []
+    const server = nodeHttp.createServer((req, res) => {
+      ranges.push(req.headers.range)
+      if (req.headers.range === undefined) {
+        // send the first half, then drop the connection
+        res.writeHead(200, { 'Content-Length': content.length })
+        res.write(content.slice(0, 10), () => res.destroy())
+      } else {
+        const start = Number.parseInt(req.headers.range.replace('bytes=', ''))
+        res.writeHead(206, { 'Content-Length': content.length - start })
+        res.end(content.slice(start))
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sdk.tar.gz`
+    const file = path.join(__dirname, '../tmp/download/sdk.tar.gz')
+
+    try {
+      await http.downloadFile(url, file, { retries: 2, timeout: 5000 })
+    } finally {
+      server.close()
+    }
+
+    expect(fs.readFileSync(file, 'utf8')).toEqual(content)
+    expect(ranges).toEqual([undefined, 'bytes=10-'])
+  })
+  test('downloadFile retries server errors, but not client errors', async () => {
+    const statusCodes = [503, 200, 404]
+    let requests = 0
+    const server = nodeHttp.createServer((_req, res) => {
+      const statusCode = statusCodes[requests++]
+      res.writeHead(statusCode, { 'Content-Length': 2 })
+      res.end('ok')
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sdk.tar.gz`
+    const file = path.join(__dirname, '../tmp/download/retry.tar.gz')
+
+    try {
+      await http.downloadFile(url, file, { retries: 2, timeout: 5000 })
+      expect(requests).toEqual(2)
+      await expect(http.downloadFile(url, file, { retries: 2, timeout: 5000 })).rejects.toThrow('Http(404)')
+      expect(requests).toEqual(3)
+    } finally {
+      server.close()
+    }
+  })
+  test('downloadVulkanSdk tries the next mirror, if the download or the checksum verification fails', async () => {
+    const content = 'vulkan-sdk-archive-content'
+    const contentFile = path.join(__dirname, '../tmp/download/content.txt')
+    fs.mkdirSync(path.dirname(contentFile), { recursive: true })
+    fs.writeFileSync(contentFile, content)
+    const requests: string[] = []
+    const server = nodeHttp.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url?.split('/')[1]}`)
+      if (req.method === 'HEAD') {
+        res.writeHead(200)
+        res.end()
+      } else if (req.url?.startsWith('/broken/')) {
+        res.writeHead(500)
+        res.end()
+      } else {
+        const body = req.url?.startsWith('/corrupted/') ? 'corrupted' : content
+        res.writeHead(200, { 'Content-Length': body.length })
+        res.end(body)
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    try {
+      const download = await downloader.downloadVulkanSdk('1.3.250.1', {
+        mirrors: [`${baseUrl}/broken/`, `${baseUrl}/corrupted/`, `${baseUrl}/valid/`],
+        sdkChecksum: await checksum.computeSha256(contentFile),
+        runtimeChecksum: '',
+        checksumManifest: '',
+        retries: 0,
+        timeout: 5,
+        linuxDistribution: '',
+        target: { os: 'linux', arch: 'x64' }
+      })
+      expect(download.url).toEqual(`${baseUrl}/valid/vulkansdk-linux-x86_64-1.3.250.1.tar.gz`)
+      expect(fs.readFileSync(download.file, 'utf8')).toEqual(content)
+    } finally {
+      server.close()
+    }
+    expect(requests).toEqual([
+      'HEAD broken',
+      'GET broken',
+      'HEAD corrupted',
+      'GET corrupted',
+      'HEAD valid',
+      'GET valid'
+    ])
+  })
+  test('downloadVulkanSdk tries the next mirror, if the sidecar checksum request times out', async () => {
+    const content = 'vulkan-sdk-archive-content'
+    const server = nodeHttp.createServer((req, res) => {
+      if (req.url?.endsWith('.sha256')) {
+        // the hanging mirror never answers, the other mirror has no sidecar file
+        if (req.url.startsWith('/valid/')) {
+          res.writeHead(404)
+          res.end()
+        }
+      } else if (req.method === 'HEAD') {
+        res.writeHead(200)
+        res.end()
+      } else {
+        res.writeHead(200, { 'Content-Length': content.length })
+        res.end(content)
+      }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+    try {
+      const download = await downloader.downloadVulkanSdk('1.3.250.1', {
+        mirrors: [`${baseUrl}/hanging/`, `${baseUrl}/valid/`],
+        sdkChecksum: '',
+        runtimeChecksum: '',
+        checksumManifest: '',
+        retries: 0,
+        timeout: 1,
+        linuxDistribution: '',
+        target: { os: 'linux', arch: 'x64' }
+      })
+      expect(download.url).toEqual(`${baseUrl}/valid/vulkansdk-linux-x86_64-1.3.250.1.tar.gz`)
+    } finally {
+      server.closeAllConnections()
+      server.close()
+    }
   })
 })
 
@@ -57,6 +866,158 @@ describe('platform', () => {
     }
     expect(platform).toStrictEqual(plat)
   })
+  test('parseOsRelease reads quoted and unquoted values', () => {
+    const osRelease = parseOsRelease(
+      [
+        '# Linux Mint',
+        'NAME="Linux Mint"',
+        'PRETTY_NAME="Linux Mint 21.3"',
+        'ID=linuxmint',
+        "ID_LIKE='ubuntu debian'",
+        'VERSION_ID="21.3"',
+        'VERSION_CODENAME=virginia',
+        'UBUNTU_CODENAME=jammy'
+      ].join('\n')
+    )
+    expect(osRelease).toEqual({
+      id: 'linuxmint',
+      idLike: ['ubuntu', 'debian'],
+      versionId: '21.3',
+      versionCodename: 'virginia',
+      ubuntuCodename: 'jammy',
+      prettyName: 'Linux Mint 21.3'
+    })
+  })
+})
+
+describe('linux arm distribution', () => {
+  const osRelease = (content: string): OsRelease => parseOsRelease(content)
+
+  test('Ubuntu and its derivatives are mapped by their Ubuntu version', () => {
+    expect(downloader.getLinuxArmDistribution(osRelease('ID=ubuntu\nVERSION_ID="22.04"'))).toEqual('ubuntu-22.04')
+    expect(downloader.getLinuxArmDistribution(osRelease('ID=ubuntu\nVERSION_ID=24.04'))).toEqual('ubuntu-24.04')
+    expect(downloader.getLinuxArmDistribution(osRelease('ID=ubuntu\nVERSION_ID="24.10"'))).toEqual('ubuntu-24.04')
+    expect(
+      downloader.getLinuxArmDistribution(osRelease('ID=pop\nID_LIKE="ubuntu debian"\nUBUNTU_CODENAME=jammy'))
+    ).toEqual('ubuntu-22.04')
+    expect(() => downloader.getLinuxArmDistribution(osRelease('ID=ubuntu\nVERSION_ID="20.04"'))).toThrow('too old')
+  })
+  test('Debian and its derivatives are mapped to a compatible variant', () => {
+    expect(downloader.getLinuxArmDistribution(osRelease('ID=debian\nVERSION_ID="12"'))).toEqual('ubuntu-22.04')
+    expect(downloader.getLinuxArmDistribution(osRelease('ID=debian\nVERSION_CODENAME=trixie'))).toEqual('ubuntu-24.04')
+    expect(
+      downloader.getLinuxArmDistribution(osRelease('ID=raspbian\nID_LIKE=debian\nVERSION_CODENAME=bookworm'))
+    ).toEqual('ubuntu-22.04')
+    expect(() => downloader.getLinuxArmDistribution(osRelease('ID=debian\nVERSION_ID="11"'))).toThrow('not supported')
+  })
+  test('Other distributions are not supported', () => {
+    expect(() =>
+      downloader.getLinuxArmDistribution(osRelease('ID=fedora\nVERSION_ID=41\nPRETTY_NAME="Fedora Linux 41"'))
+    ).toThrow('Fedora Linux 41 is not supported')
+    expect(() => downloader.getLinuxArmDistribution(undefined)).toThrow('"linux_distribution"')
+  })
+  test('getInputLinuxDistribution accepts the distribution variants', () => {
+    expect(inputs.getInputLinuxDistribution('')).toEqual('')
+    expect(inputs.getInputLinuxDistribution('Ubuntu-22.04')).toEqual('ubuntu-22.04')
+    expect(() => inputs.getInputLinuxDistribution('fedora-41')).toThrow('Invalid "linux_distribution: fedora-41"')
+  })
+})
+
+describe('cross-platform fetch', () => {
+  const windows: Target = { os: 'windows', arch: 'x64' }
+  // a target, which is not the host
+  const crossTarget: Target = HOST_TARGET.os === 'linux' ? windows : { os: 'linux', arch: 'x64' }
+
+  test('getInputTarget defaults to the host', () => {
+    expect(inputs.getInputTarget('', '')).toEqual(HOST_TARGET)
+    expect(inputs.getInputTarget('Windows', 'x64')).toEqual(windows)
+    expect(() => inputs.getInputTarget('win32', '')).toThrow('Invalid "target_platform: win32"')
+    expect(() => inputs.getInputTarget('linux', 'aarch64')).toThrow('Invalid "target_arch: aarch64"')
+  })
+  test('The platform name of a target', () => {
+    expect(getTargetPlatform(windows)).toEqual('windows')
+    expect(getTargetPlatform({ os: 'windows', arch: 'arm64' })).toEqual('warm')
+    expect(getTargetPlatform({ os: 'linux', arch: 'arm64' })).toEqual('linux')
+    expect(isHostTarget(HOST_TARGET)).toBe(true)
+    expect(isHostTarget(crossTarget)).toBe(false)
+  })
+  test('The download filename and URL depend on the target, not on the host', () => {
+    expect(downloader.getVulkanSdkDownloadFilename('1.4.304.0', '', windows)).toEqual(
+      'VulkanSDK-1.4.304.0-Installer.exe'
+    )
+    expect(downloader.getVulkanSdkDownloadFilename('1.4.304.0', '', { os: 'windows', arch: 'arm64' })).toEqual(
+      'InstallVulkanARM64-1.4.304.0.exe'
+    )
+    expect(
+      downloader.getVulkanSdkDownloadFilename('1.4.304.0', 'ubuntu-24.04', { os: 'linux', arch: 'arm64' })
+    ).toEqual('vulkansdk-ubuntu-24.04-arm-1.4.304.0.tar.xz')
+    expect(downloader.getVulkanSdkDownloadFilename('1.3.250.1', '', { os: 'linux', arch: 'x64' })).toEqual(
+      'vulkansdk-linux-x86_64-1.3.250.1.tar.gz'
+    )
+    expect(downloader.expandMirrorTemplate(downloader.DEFAULT_SDK_MIRRORS[1], '1.4.304.0', 'a.exe', windows)).toEqual(
+      'https://sdk.lunarg.com/sdk/download/1.4.304.0/windows/a.exe'
+    )
+  })
+  test('The cache key and the installation layout depend on the target', () => {
+    const { cachePrimaryKey } = cacheVulkan.getCacheKeys(
+      '1.3.250.1',
+      {
+        destination: '/vulkan-sdk',
+        optionalComponents: [],
+        installRuntime: false,
+        stripdown: false,
+        stripdownProfile: '',
+        stripdownInclude: [],
+        stripdownExclude: []
+      },
+      windows
+    )
+    expect(cachePrimaryKey).toMatch(/^cache-windows-x64-vulkan-sdk-1\.3\.250\.1-[0-9a-f]{12}$/)
+    const sdkPath = path.join(__dirname, '../tmp/cross/1.3.250.1')
+    expect(installerVulkan.getVulkanSdkPath(sdkPath, '1.3.250.1', windows)).toEqual(sdkPath)
+    expect(installerVulkan.getVulkanSdkPath(sdkPath, '1.3.250.1', { os: 'linux', arch: 'arm64' })).toEqual(
+      path.join(sdkPath, 'aarch64')
+    )
+  })
+  test('The MacOS SDK requires a MacOS host, other targets only fetch the SDK', () => {
+    const macError = validate.validateTarget({ os: 'mac', arch: 'arm64' })
+    if (process.platform === 'darwin') {
+      expect(macError).toBeUndefined()
+    } else {
+      expect(macError).toMatch(/requires a MacOS runner/)
+    }
+    expect(validate.validateTarget(crossTarget)).toBeUndefined()
+  })
+})
+
+describe('versions', () => {
+  const availableVersions = ['1.4.304.0', '1.3.296.0', '1.3.290.0', '1.3.250.1', '1.3.243.0', '1.2.198.1']
+
+  test('isRange detects wildcards and comparators, but not exact versions', () => {
+    expect(versions.isRange('1.3.x')).toBeTruthy()
+    expect(versions.isRange('>=1.3.250 <1.4')).toBeTruthy()
+    expect(versions.isRange('1.2.x || >=1.4')).toBeTruthy()
+    expect(versions.isRange('1.3.250.1')).toBeFalsy()
+    expect(versions.isRange('1.3')).toBeFalsy()
+    expect(versions.isRange('1.x.3')).toBeFalsy()
+  })
+  test('maxSatisfying picks the highest matching version', () => {
+    expect(versions.maxSatisfying(availableVersions, '1.3.x')).toEqual('1.3.296.0')
+    expect(versions.maxSatisfying(availableVersions, '>=1.3.250 <1.3.290')).toEqual('1.3.250.1')
+    expect(versions.maxSatisfying(availableVersions, '1.2.*')).toEqual('1.2.198.1')
+    expect(versions.maxSatisfying(availableVersions, '>=1.5')).toBeUndefined()
+  })
+  test('SdkVersion compares each component numerically', () => {
+    expect(versions.compare('1.3.296.0', '1.4.9.0')).toBe(-1)
+    expect(versions.SdkVersion.parse('1.10.0.0').isGreaterThan('1.9.999.9')).toBeTruthy()
+    expect(versions.SdkVersion.parse('1.3.250.1').equals('1.3.250.1')).toBeTruthy()
+    expect(versions.SdkVersion.parse('1.3.250.1a').isGreaterThan('1.3.250.1')).toBeTruthy()
+    expect(versions.SdkVersion.tryParse('1.3')).toBeNull()
+    expect(versions.sort(['1.4.9.0', '1.3.296.0', '1.10.0.0'])).toEqual(['1.3.296.0', '1.4.9.0', '1.10.0.0'])
+  })
+  test('closest returns the versions around the range anchor', () => {
+    expect(versions.closest(availableVersions, '1.3.260.x', 2)).toEqual(['1.3.290.0', '1.3.250.1'])
+  })
 })
 
 describe('version', () => {
@@ -79,6 +1040,87 @@ describe('version', () => {
   })
 })
 
+describe('offline installation', () => {
+  const testOnLinux = process.platform === 'linux' && process.arch === 'x64' ? test : test.skip
+  const tmpDir = path.join(__dirname, '../tmp/offline')
+
+  beforeAll(() => {
+    fs.rmSync(<string>env.RUNNER_TOOL_CACHE, { recursive: true, force: true })
+    // a fake SDK archive with a versionized top-level directory
+    fs.rmSync(tmpDir, { recursive: true, force: true })
+    fs.mkdirSync(path.join(tmpDir, 'archive/1.3.250.1/x86_64/bin'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'archive/1.3.250.1/x86_64/bin/vulkaninfo'), '')
+    fs.mkdirSync(path.join(tmpDir, 'archive/1.3.250.1/x86_64/include'), { recursive: true })
+    fs.writeFileSync(path.join(tmpDir, 'archive/1.3.250.1/x86_64/include/volk.h'), '')
+    execSync(`tar -czf ${path.join(tmpDir, 'sdk.tar.gz')} -C ${path.join(tmpDir, 'archive')} 1.3.250.1`)
+    fs.copyFileSync(path.join(tmpDir, 'sdk.tar.gz'), path.join(tmpDir, 'sdk.tgz'))
+  })
+
+  test('getVersionFromSdkArchive infers the version from the file name', () => {
+    expect(versionsVulkan.getVersionFromSdkArchive('/tmp/vulkansdk-linux-x86_64-1.3.250.1.tar.gz')).toEqual('1.3.250.1')
+  })
+  test('getVersionFromSdkArchive infers the version from the top-level directory', () => {
+    expect(versionsVulkan.getVersionFromSdkArchive(path.join(tmpDir, 'sdk.tar.gz'))).toEqual('1.3.250.1')
+    expect(versionsVulkan.getVersionFromSdkArchive(path.join(tmpDir, 'sdk.tgz'))).toEqual('1.3.250.1')
+  })
+  testOnLinux('getVersionFromSdkArchive lists a zip archive', () => {
+    execSync(`zip -qr ${path.join(tmpDir, 'sdk.zip')} 1.3.250.1`, { cwd: path.join(tmpDir, 'archive') })
+    expect(versionsVulkan.getVersionFromSdkArchive(path.join(tmpDir, 'sdk.zip'))).toEqual('1.3.250.1')
+  })
+  test('cacheVulkanSdk registers the SDK in the tool cache, findVulkanSdk finds it', async () => {
+    expect(toolCache.findVulkanSdk('1.3.250.1', '0123456789ab', 'x64')).toEqual('')
+    const cachePath = await toolCache.cacheVulkanSdk(
+      path.join(tmpDir, 'archive/1.3.250.1'),
+      '1.3.250.1',
+      '0123456789ab',
+      'x64'
+    )
+    expect(toolCache.findVulkanSdk('1.3.250.1', '0123456789ab', 'x64')).toEqual(cachePath)
+    // a different installation, e.g. with other optional components, is not found
+    expect(toolCache.findVulkanSdk('1.3.250.1', 'ba9876543210', 'x64')).toEqual('')
+    expect(fs.existsSync(path.join(cachePath, 'x86_64/bin/vulkaninfo'))).toBeTruthy()
+    expect(installerVulkan.getVulkanSdkPath(cachePath, '1.3.250.1', { os: 'linux', arch: 'x64' })).toEqual(
+      path.join(cachePath, 'x86_64')
+    )
+  })
+  testOnLinux('installVulkanSdk installs a local archive', async () => {
+    const destination = path.join(tmpDir, 'vulkan-sdk')
+    const installPath = await installerVulkan.installVulkanSdk(
+      path.join(tmpDir, 'sdk.tar.gz'),
+      destination,
+      '1.3.250.1',
+      []
+    )
+    const sdkPath = installerVulkan.getVulkanSdkPath(installPath, '1.3.250.1')
+    expect(sdkPath).toEqual(path.join(destination, '1.3.250.1/x86_64'))
+    expect(installerVulkan.verifyInstallationOfSdk(sdkPath)).toBeTruthy()
+    // without optional components, only the base SDK is kept
+    expect(fs.existsSync(path.join(sdkPath, 'include/volk.h'))).toBeFalsy()
+  })
+  testOnLinux('installVulkanSdk installs a local .tgz archive', async () => {
+    const destination = path.join(tmpDir, 'vulkan-sdk-tgz')
+    const installPath = await installerVulkan.installVulkanSdk(
+      path.join(tmpDir, 'sdk.tgz'),
+      destination,
+      '1.3.250.1',
+      []
+    )
+    const sdkPath = installerVulkan.getVulkanSdkPath(installPath, '1.3.250.1')
+    expect(installerVulkan.verifyInstallationOfSdk(sdkPath)).toBeTruthy()
+  })
+  testOnLinux('installVulkanSdk keeps the requested components', async () => {
+    const destination = path.join(tmpDir, 'vulkan-sdk-components')
+    const installPath = await installerVulkan.installVulkanSdk(
+      path.join(tmpDir, 'sdk.tar.gz'),
+      destination,
+      '1.3.250.1',
+      ['com.lunarg.vulkan.volk']
+    )
+    const sdkPath = installerVulkan.getVulkanSdkPath(installPath, '1.3.250.1')
+    expect(fs.existsSync(path.join(sdkPath, 'include/volk.h'))).toBeTruthy()
+  })
+})
+
 /*describe('download', () => {
   // remove the cache and temp
   beforeAll(async () => {